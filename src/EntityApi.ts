@@ -17,24 +17,63 @@ import {EntityClient} from "./EntityClient";
  * 
  * ### Hooks
  * The EntityApi supports the following hooks:
+ * - [useAggregate](../functions/useAggregate)
+ * - [useAuthAction](../functions/useAuthAction)
+ * - [useAuthClaims](../functions/useAuthClaims)
  * - [useAuthListener](../functions/useAuthListener)
  * - [useAuthUser](../functions/useAuthUser)
+ * - [useCallable](../functions/useCallable)
+ * - [useCollectionGroupListener](../functions/useCollectionGroupListener)
  * - [useData](../functions/useData)
+ * - [useDocFetch](../functions/useDocFetch)
  * - [useDocListener](../functions/useDocListener)
+ * - [useDocsListener](../functions/useDocsListener)
  * - [useEntity](../functions/useEntity)
  * - [useEntityApi](../functions/useEntityApi)
+ * - [useEntityMetadata](../functions/useEntityMetadata)
+ * - [useMutation](../functions/useMutation)
+ * - [usePaginatedQuery](../functions/usePaginatedQuery)
+ * - [useQueryListener](../functions/useQueryListener)
  * - [useReleaseAllClaims](../functions/useReleaseAllClaims)
+ * - [useRtdbListener](../functions/useRtdbListener)
+ * - [useStorageMetadata](../functions/useStorageMetadata)
+ * - [useStorageUrl](../functions/useStorageUrl)
  * 
  * ### Functions
  * The `EntityApi` supports the following functions:
+ * - [callFunction](../functions/callFunction.html)
+ * - [dehydrate](../functions/dehydrate.html)
+ * - [deleteDocument](../functions/deleteDocument.html)
+ * - [entityBatch](../functions/entityBatch.html)
+ * - [fetchEntity](../functions/fetchEntity.html)
+ * - [fetchStorageMetadata](../functions/fetchStorageMetadata.html)
+ * - [fetchStorageUrl](../functions/fetchStorageUrl.html)
+ * - [getAuthClaims](../functions/getAuthClaims.html)
  * - [getAuthUser](../functions/getAuthUser.html)
  * - [getEntity](../functions/getEntity.html)
+ * - [getEntityMetadata](../functions/getEntityMetadata.html)
+ * - [hydrate](../functions/hydrate.html)
+ * - [linkAccount](../functions/linkAccount.html)
+ * - [reauthenticate](../functions/reauthenticate.html)
+ * - [refetchEntity](../functions/refetchEntity.html)
+ * - [refreshAuthClaims](../functions/refreshAuthClaims.html)
  * - [releaseAllClaims](../functions/releaseAllClaims.html)
  * - [releaseClaim](../functions/releaseClaim.html)
+ * - [runEntityTransaction](../functions/runEntityTransaction.html)
  * - [setAuthUser](../functions/setAuthUser.html)
+ * - [setDocument](../functions/setDocument.html)
  * - [setEntity](../functions/setEntity.html)
  * - [setLeasedEntity](../functions/setLeasedEntity.html)
+ * - [signInWith](../functions/signInWith.html)
+ * - [signOutUser](../functions/signOutUser.html)
+ * - [updateDocument](../functions/updateDocument.html)
+ * - [uploadFile](../functions/uploadFile.html)
+ * - [watchAggregate](../functions/watchAggregate.html)
+ * - [watchCollectionGroup](../functions/watchCollectionGroup.html)
  * - [watchEntity](../functions/watchEntity.html)
+ * - [watchPaginatedQuery](../functions/watchPaginatedQuery.html)
+ * - [watchQuery](../functions/watchQuery.html)
+ * - [watchRtdbEntity](../functions/watchRtdbEntity.html)
  * 
  * ### Events
  * The following events are supported by and provide access to the `EntityApi` 
@@ -42,10 +81,19 @@ import {EntityClient} from "./EntityClient";
  * 
  * Some of these functions also accept the local cache as the first argument so they
  * can be used inside the {@link EntityApi.mutate} method.
+ * - [AggregateErrorEvent](./AggregateErrorEvent.html)
  * - [AuthErrorEvent](./AuthErrorEvent.html)
+ * - [CallableErrorEvent](./CallableErrorEvent.html)
  * - [DocChangeEvent](./DocChangeEvent.html)
  * - [DocErrorEvent](./DocErrorEvent.html)
+ * - [DocFetchEvent](./DocFetchEvent.html)
  * - [DocRemovedEvent](./DocRemovedEvent.html)
+ * - [QueryChangeEvent](./QueryChangeEvent.html)
+ * - [QueryErrorEvent](./QueryErrorEvent.html)
+ * - [RtdbChangeEvent](./RtdbChangeEvent.html)
+ * - [RtdbErrorEvent](./RtdbErrorEvent.html)
+ * - [RtdbRemovedEvent](./RtdbRemovedEvent.html)
+ * - [StorageErrorEvent](./StorageErrorEvent.html)
  * - [UserChangeEvent](./UserChangeEvent.html)
  * - [UserSignedOutEvent](./UserSignedOutEvent.html)
  * 
@@ -0,0 +1,30 @@
+import { createLeasedEntity, releaseLeaseClaim } from "./EntityClient";
+import { createTestClient } from "./testUtils";
+
+describe('releaseLeaseClaim', () => {
+
+    beforeEach(() => {
+        jest.useFakeTimers();
+    })
+
+    afterEach(() => {
+        jest.useRealTimers();
+    })
+
+    it('does not restart the eviction timer when a leasee without a claim releases an abandoned lease', () => {
+        const api = createTestClient({}, {abandonTime: 1000});
+        const client = api.getClient();
+        createLeasedEntity(client, () => {}, 'entity', 'holder');
+        const lease = client.leases.get('entity')!;
+
+        releaseLeaseClaim(client, lease, 'holder');
+        const abandonedAt = lease.abandonedAt;
+
+        jest.advanceTimersByTime(600);
+        releaseLeaseClaim(client, lease, 'stranger');
+        expect(lease.abandonedAt).toBe(abandonedAt);
+
+        jest.advanceTimersByTime(600);
+        expect(api.getClient().leases.has('entity')).toBe(false);
+    })
+})
@@ -1,18 +1,23 @@
 import { FirebaseApp } from "firebase/app";
 import { Unsubscribe } from "firebase/auth";
 import produce from "immer";
+import { AUTH_ACTIONS, AUTH_CLAIMS, authActionKey, CURRENT_USER, ENTITY_METADATA } from "./common";
 import { Lease } from "./Lease";
 import { MutableEntityApi } from "./MutableEntityApi";
-import { setEntity } from "./setEntity";
-import { Cache, EntityApiOptions, LeaseOptions } from "./types";
+import { Cache, EntityApiOptions, EntityMetadata, EvictionReason, LeaseEvent, LeaseOptions } from "./types";
+import { hashEntityKey } from "./util";
 
 const DEFAULT_ABANDON_TIME = 300000;
 
+/** Separates the name of a leasee from the suffix of a derived leasee */
+const DERIVED_LEASEE_SEPARATOR = '::';
+
 export function createEntityClient(
     firebaseApp: FirebaseApp,
     cache: Cache,
     setCache: React.Dispatch<React.SetStateAction<Cache>>,
-    options?: EntityApiOptions
+    options?: EntityApiOptions,
+    apps?: Record<string, FirebaseApp>
 ) {
     return new EntityClient(
         firebaseApp,
@@ -21,7 +26,8 @@ export function createEntityClient(
         new Map<string, Lease>(),
         new Map<string, Set<Lease>>(),
         new MutableEntityApi(),
-        options
+        options,
+        apps
     )
 }
 
@@ -33,7 +39,8 @@ export function updateEntityClient(client: EntityClient, cache: Cache) {
         client.leases,
         client.leaseeLeases,
         client.api,
-        client.options
+        client.options,
+        client.apps
     )
 }
 
@@ -107,6 +114,12 @@ export class EntityClient {
      */
     options: EntityApiOptions;
 
+    /**
+     * Additional FirebaseApps, indexed by name, that may be selected with the
+     * `app` option of listeners and other functions.
+     */
+    readonly apps: Record<string, FirebaseApp>;
+
     /** @ignore */
     constructor(
         firebaseApp: FirebaseApp,
@@ -115,7 +128,8 @@ export class EntityClient {
         leases: Map<string, Lease>,
         leaseeLeases: Map<string, Set<Lease>>,
         api: MutableEntityApi,
-        options?: EntityApiOptions
+        options?: EntityApiOptions,
+        apps?: Record<string, FirebaseApp>
     ) {
         this.firebaseApp = firebaseApp;
         this.cache = cache;
@@ -124,9 +138,35 @@ export class EntityClient {
         this.leaseeLeases = leaseeLeases;
         this.api = api;
         this.options = options || {};
+        this.apps = apps || {};
         api.setClient(this);        
     }
 
+    /**
+     * Get the FirebaseApp with the given name, or the default FirebaseApp if
+     * the name is undefined.
+     * @throws Error if there is no FirebaseApp with the given name.
+     * @ignore
+     */
+    getFirebaseApp(name?: string) {
+        if (name === undefined) {
+            return this.firebaseApp;
+        }
+        const app = this.apps[name];
+        if (!app) {
+            throw new Error(`No FirebaseApp named "${name}" was passed to the FirebaseProvider`);
+        }
+        return app;
+    }
+
+    /**
+     * Get the name of the given FirebaseApp, or `undefined` if it is the default app.
+     * @ignore
+     */
+    getAppName(app: FirebaseApp) {
+        return Object.keys(this.apps).find(name => this.apps[name] === app);
+    }
+
     /**
      * @ignore
      */
@@ -136,63 +176,227 @@ export class EntityClient {
 
 
     /**
-     * Remove a given leasee from all leases that it currently claims.
+     * Remove a given leasee, and the leasees derived from it, from all leases 
+     * that they currently claim.
      * @param leasee The name of the leasee
      * 
      * @ignore
      */
     disownAllLeases(leasee: string) {
-        const set = this.leaseeLeases.get(leasee);
-        if (set) {
-            set.forEach(lease => {
-                removeLeaseeFromLease(this, lease, leasee);
-            })
-            this.leaseeLeases.delete(leasee);
+        const prefix = derivedLeasee(leasee, '');
+        const derived = Array.from(this.leaseeLeases.keys()).filter(name => name.startsWith(prefix));
+        [leasee, ...derived].forEach(name => {
+            const set = this.leaseeLeases.get(name);
+            if (set) {
+                set.forEach(lease => {
+                    removeLeaseeFromLease(this, lease, name);
+                })
+                this.leaseeLeases.delete(name);
+            }
+        })
+    }
+}
+
+/**
+ * Get the name of a leasee that holds claims on behalf of another leasee, e.g.
+ * the claims on documents referenced by an entity. Claims held by a derived leasee
+ * can be released without affecting claims that the parent leasee holds directly,
+ * and they are released together with the claims of the parent leasee when it
+ * disowns all of its leases.
+ */
+export function derivedLeasee(leasee: string, suffix: string) {
+    return leasee + DERIVED_LEASEE_SEPARATOR + suffix;
+}
+
+/**
+ * Release the claim that a leasee has on the given lease.
+ */
+export function releaseLeaseClaim(client: EntityClient, lease: Lease, leasee: string) {
+    removeLeaseeFromLease(client, lease, leasee);
+    const leaseeLeases = client.leaseeLeases;
+    const set = leaseeLeases.get(leasee);
+    if (set) {
+        set.delete(lease);
+        if (set.size === 0) {
+            leaseeLeases.delete(leasee);
         }
     }
 }
 
 export function removeLeaseeFromLease(client: EntityClient, lease: Lease, leasee: string) {
 
+    const claimed = lease.ledger.has(leasee);
     lease.removeLeasee(leasee);
+
+    const {onClaimReleased, onLeaseAbandoned} = client.options;
+    if (claimed && onClaimReleased) {
+        onClaimReleased(leaseEvent(client, lease));
+    }
    
-    if (lease.ledger.size===0) {
+    // If the leasee held no claim, the lease is unchanged. In particular, an 
+    // abandoned lease keeps its original `abandonedAt` time and eviction timer.
+
+    if (claimed && lease.ledger.size===0) {
 
         // Create a timer to evict the entity after the `abandonTime` as elapsed.
 
         const abandonTime = client.getAbandonTime(lease);
+        lease.abandonedAt = Date.now();
         lease.evictionToken = setTimeout(() => {
 
             if (lease.ledger.size === 0) {
-                const entityKey = lease.entityKey;
+                evictLease(client, lease, 'abandonTime');
+            }
 
-                // If there is a listener for entity state changes, then
-                // cancel that listener.
+        }, abandonTime)
 
-                if (lease.unsubscribe) {
-                    lease.unsubscribe();
-                }
+        if (onLeaseAbandoned) {
+            onLeaseAbandoned({...leaseEvent(client, lease), abandonTime});
+        }
 
-                // Remove the lease
-                client.leases.delete(entityKey);                
-
-                // Remove the entity from the cache
-                client.setCache(
-                    oldCache => {
-                        if (oldCache[entityKey]) {
-                            const newCache = {...oldCache};
-                            delete newCache[entityKey];
-                            return newCache;
-                        }
-                        return oldCache;
-                    }
-                )
+        enforceCacheLimits(client);
+    }
+}
+
+/**
+ * Evict abandoned entities, oldest first, until the `maxAbandonedEntities`
+ * and `maxActiveListeners` limits are satisfied.
+ */
+function enforceCacheLimits(client: EntityClient) {
+    const {maxAbandonedEntities, maxActiveListeners} = client.options;
+    if (maxAbandonedEntities === undefined && maxActiveListeners === undefined) {
+        return;
+    }
+
+    const leases = Array.from(client.leases.values());
+    const abandoned = leases
+        .filter(lease => lease.ledger.size === 0 && lease.abandonedAt !== undefined)
+        .sort((a, b) => (a.abandonedAt as number) - (b.abandonedAt as number));
+
+    if (maxAbandonedEntities !== undefined) {
+        while (abandoned.length > maxAbandonedEntities) {
+            evictLease(client, abandoned.shift() as Lease, 'maxAbandonedEntities');
+        }
+    }
+
+    if (maxActiveListeners !== undefined) {
+        let listenerCount = leases.filter(lease => isListenerLease(lease) && client.leases.has(lease.entityKey)).length;
+        for (const lease of abandoned) {
+            if (listenerCount <= maxActiveListeners) {
+                break;
+            }
+            if (isListenerLease(lease)) {
+                evictLease(client, lease, 'maxActiveListeners');
+                listenerCount--;
             }
+        }
+    }
+}
 
-        }, abandonTime)
+/**
+ * Check whether a lease is governed by a snapshot listener. Leases managed by
+ * `startLeasedFetch` have an `unsubscribe` function that merely cancels the
+ * refetch timer, so they do not count as listeners.
+ */
+export function isListenerLease(lease: Lease) {
+    return Boolean(lease.unsubscribe && !lease.refresh);
+}
+
+/**
+ * Cancel the listener for a leased entity (if any), remove the lease, 
+ * and remove the entity and its metadata from the cache.
+ */
+export function evictLease(client: EntityClient, lease: Lease, reason: EvictionReason) {
+    const entityKey = lease.entityKey;
+
+    if (lease.evictionToken) {
+        clearTimeout(lease.evictionToken);
+    }
+
+    // If there is a listener for entity state changes, then
+    // cancel that listener.
+
+    if (lease.unsubscribe) {
+        lease.unsubscribe();
     }
+
+    // Remove the lease, and release any claims that are still held on it
+
+    client.leases.delete(entityKey);
+    lease.ledger.forEach(leasee => {
+        client.leaseeLeases.get(leasee)?.delete(lease);
+    })
+
+    removeEntity(client, entityKey);
+
+    const onEntityEvicted = client.options.onEntityEvicted;
+    if (onEntityEvicted) {
+        onEntityEvicted({...leaseEvent(client, lease), reason});
+    }
+}
+
+/**
+ * Remove an entity and its metadata from the cache. Any lease for the 
+ * entity is left intact; use `evictLease` to evict a leased entity.
+ */
+export function removeEntity(client: EntityClient, entityKey: string) {
+    client.setCache(
+        oldCache => {
+            const metadata = oldCache[ENTITY_METADATA] as Record<string, unknown> | undefined;
+            const hasMetadata = Boolean(metadata && entityKey in metadata);
+            if (entityKey in oldCache || hasMetadata) {
+                const newCache = {...oldCache};
+                delete newCache[entityKey];
+                if (metadata && hasMetadata) {
+                    const newMetadata = {...metadata};
+                    delete newMetadata[entityKey];
+                    newCache[ENTITY_METADATA] = newMetadata;
+                }
+                return newCache;
+            }
+            return oldCache;
+        }
+    )
 }
 
+/**
+ * Evict all leased entities that belong to the session of the previous user,
+ * except the entities managed by the auth listener and those retained by the
+ * `retainOnUserChange` option.
+ * 
+ * The results of completed auth actions are not leased, so they are removed
+ * from the cache separately. Actions that are still pending are kept, since
+ * their results belong to the new session.
+ */
+export function evictUserEntities(client: EntityClient) {
+    const retain = client.options.retainOnUserChange;
+    Array.from(client.leases.values()).forEach(lease => {
+        const entityKey = lease.entityKey;
+        if (
+            entityKey !== CURRENT_USER && 
+            entityKey !== AUTH_CLAIMS &&
+            !(retain && retain(entityKey))
+        ) {
+            evictLease(client, lease, 'userChange');
+        }
+    })
+
+    const actionKeys = AUTH_ACTIONS
+        .map(action => hashEntityKey(authActionKey(action)))
+        .filter(entityKey => !(retain && retain(entityKey)));
+
+    client.setCache(
+        oldCache => actionKeys.some(entityKey => oldCache[entityKey] !== undefined) ?
+            produce(oldCache, draftCache => {
+                actionKeys.forEach(entityKey => {
+                    if (draftCache[entityKey] !== undefined) {
+                        delete draftCache[entityKey];
+                    }
+                })
+            }) :
+            oldCache
+    )
+}
 
 /**
  * Add a given entity to the cache on behalf of a given leasee.
@@ -200,29 +404,66 @@ export function removeLeaseeFromLease(client: EntityClient, lease: Lease, leasee
  * @param entity The entity to be added
  * @param leasee The name of the leasee adding the entity
  * @param cache The cache proxy to which the entity will be added
+ * @param refresh The function that refetches the entity, if it is fetched on 
+ *      demand instead of being kept up-to-date by a listener
  */
 export function createLeasedEntity(
     client: EntityClient, 
     unsubscribe: Unsubscribe | undefined,
     key: string,
     leasee: string, 
-    options?: LeaseOptions
+    options?: LeaseOptions,
+    refresh?: () => void
 ) {
-    setEntity(client.api, key, undefined);
+    // An entity restored from persistent storage keeps its value until the 
+    // listener delivers fresh data. Otherwise, the entity is pending.
+    client.setCache(
+        oldCache => isStaleEntity(oldCache, key) ? oldCache : produce(oldCache, draftCache => {
+            draftCache[key] = undefined;
+        })
+    )
     const lease = claimLease(client, key, leasee, options);
     lease.unsubscribe = unsubscribe;
+    if (refresh) {
+        lease.refresh = refresh;
+    }
+
+    if (unsubscribe && !refresh) {
+        const onListenerStarted = client.options.onListenerStarted;
+        if (onListenerStarted) {
+            onListenerStarted(leaseEvent(client, lease, leasee));
+        }
+        enforceCacheLimits(client);
+    }
+}
+
+/**
+ * Check whether an entity was restored from persistent storage, or hydrated 
+ * from server-side rendering, and has not received fresh data since.
+ */
+function isStaleEntity(cache: Cache, key: string) {
+    const metadata = cache[ENTITY_METADATA] as Record<string, EntityMetadata> | undefined;
+    return Boolean(metadata?.[key]?.stale);
 }
 
 
 export function claimLease(client: EntityClient, entityKey: string, leasee: string, options?: LeaseOptions) {
 
+    const {onLeaseCreated, onClaimAdded} = client.options;
+
     let lease = client.leases.get(entityKey);
     if (!lease) {
         lease = new Lease(entityKey, options);
         client.leases.set(entityKey, lease);
+        if (onLeaseCreated) {
+            onLeaseCreated(leaseEvent(client, lease, leasee));
+        }
     }
     if (!lease.ledger.has(leasee)) {
         lease.addLeasee(leasee);
+        if (onClaimAdded) {
+            onClaimAdded(leaseEvent(client, lease, leasee));
+        }
         let set = client.leaseeLeases.get(leasee);
         if (!set) {
             set = new Set<Lease>();
@@ -233,4 +474,29 @@ export function claimLease(client: EntityClient, entityKey: string, leasee: stri
         }
     }
     return lease;
-}
\ No newline at end of file
+}
+
+/**
+ * Invoke the `onListenerError` callback, if any, when the listener for a 
+ * leased entity receives an error.
+ */
+export function notifyListenerError(client: EntityClient, entityKey: string, error: Error) {
+    const onListenerError = client.options.onListenerError;
+    const lease = client.leases.get(entityKey);
+    if (onListenerError && lease) {
+        onListenerError({...leaseEvent(client, lease), error});
+    }
+}
+
+/**
+ * Create the payload for a lease lifecycle event.
+ * @param leasee The leasee that caused the event. By default, the leasee that
+ *      most recently claimed or released the entity.
+ */
+export function leaseEvent(client: EntityClient, lease: Lease, leasee = lease.lastLeasee): LeaseEvent {
+    return {
+        api: client.api,
+        leasee: leasee || '',
+        entityKey: lease.entityKey
+    }
+}
@@ -0,0 +1,62 @@
+import { DocumentSnapshot, Transaction } from "firebase/firestore";
+import { setSnapshotEntity, StagedWrite } from "./common";
+import { createLeasedEntity } from "./EntityClient";
+import { EntityTransaction } from "./EntityWriter";
+import { createTestClient } from "./testUtils";
+import { hashEntityKey } from "./util";
+
+const serverSnapshot = {
+    exists: () => true,
+    data: () => ({name: 'Paris (server)'})
+} as unknown as DocumentSnapshot;
+
+function createTransaction(overrides: Partial<Transaction> = {}) {
+    return {
+        get: jest.fn(() => Promise.resolve(serverSnapshot)),
+        ...overrides
+    } as unknown as Transaction;
+}
+
+describe('EntityTransaction', () => {
+    const path = ['cities', 'paris'];
+    const hashValue = hashEntityKey(path);
+
+    it('reads a document from the cache if it is kept fresh by a listener', async () => {
+        const api = createTestClient();
+        createLeasedEntity(api.getClient(), () => {}, hashValue, 'test');
+        setSnapshotEntity(api, hashValue, {fromCache: false, hasPendingWrites: false}, {name: 'Paris'});
+
+        const transaction = createTransaction();
+        const result = await new EntityTransaction(api, transaction, []).get(path, {preferCache: true});
+
+        expect(result).toEqual([{name: 'Paris'}, undefined, 'success']);
+        expect(transaction.get).not.toHaveBeenCalled();
+    })
+
+    it('reads a fetched document from the server', async () => {
+        const api = createTestClient();
+        createLeasedEntity(api.getClient(), () => {}, hashValue, 'test', undefined, () => {});
+        setSnapshotEntity(api, hashValue, {fromCache: false, hasPendingWrites: false}, {name: 'Paris'});
+
+        const transaction = createTransaction();
+        const result = await new EntityTransaction(api, transaction, []).get(path, {preferCache: true});
+
+        expect(result).toEqual([{name: 'Paris (server)'}, undefined, 'success']);
+        expect(transaction.get).toHaveBeenCalled();
+    })
+
+    it('does not stage an optimistic write if Firestore rejects the data', () => {
+        const api = createTestClient();
+        const writes: StagedWrite[] = [];
+        const transaction = createTransaction({
+            set: () => {
+                throw new Error("Unsupported field value: undefined");
+            }
+        });
+
+        const entityTransaction = new EntityTransaction(api, transaction, writes);
+
+        expect(() => entityTransaction.set(path, {population: undefined})).toThrow();
+        expect(writes).toHaveLength(0);
+    })
+})
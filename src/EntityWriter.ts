@@ -0,0 +1,260 @@
+import { DocumentData, DocumentReference, FirestoreDataConverter, getFirestore, runTransaction, Transaction, TransactionOptions, UpdateData, WithFieldValue, WriteBatch, writeBatch } from "firebase/firestore";
+import { applyStagedWrites, AppOptions, appKey, documentRef, getFirebaseApp, lookupEntityMetadata, lookupEntityTuple, SetDocumentOptions, setFields, StagedWrite, updateFields, validateWritePath } from "./common";
+import { EntityApi } from "./EntityApi";
+import { isListenerLease } from "./EntityClient";
+import { EntityTuple, ErrorTuple, SuccessTuple, WriteResultTuple } from "./types";
+import { asError, hashEntityKey } from "./util";
+
+/**
+ * Options passed to the `get` method of an {@link EntityTransaction}.
+ */
+export interface TransactionGetOptions<T = unknown> {
+
+    /**
+     * A Firestore data converter for the document. If the document is read from
+     * the server, the data is the value returned by the converter's `fromFirestore`
+     * method.
+     */
+    converter?: FirestoreDataConverter<T>;
+
+    /**
+     * If `true`, and the cache holds a fresh copy of the document, the cached
+     * value is returned without reading the document from the server.
+     *
+     * A cached entity is fresh if it is kept up-to-date by an active listener,
+     * and its latest snapshot came from the server with no pending writes. 
+     * Entities that are fetched on demand, e.g. by `useDocFetch`, are never fresh.
+     *
+     * Documents read from the cache are not guarded by the transaction. Use this
+     * option only for documents that are not involved in the invariants that the
+     * transaction protects.
+     */
+    preferCache?: boolean;
+}
+
+/**
+ * The base class for wrappers that stage writes to Firestore and apply
+ * them to the cache optimistically.
+ */
+abstract class EntityWriter {
+    constructor(
+        protected readonly api: EntityApi,
+        protected readonly writes: StagedWrite[],
+        protected readonly appOptions?: AppOptions
+    ) {}
+
+    /**
+     * Stage a write that sets the data for a document.
+     * @param path The path to the document in Firestore
+     * @param data The data for the document
+     * @param options If `merge` is `true`, the data is merged into the existing document.
+     *      If a `converter` is given, it converts the data before it is written.
+     */
+    set<T = DocumentData>(
+        path: string[],
+        data: WithFieldValue<T>,
+        options?: Pick<SetDocumentOptions<T>, 'merge' | 'converter'>
+    ) {
+        const merge = Boolean(options?.merge);
+        const converter = options?.converter;
+        this.stage(
+            path,
+            current => setFields(current, data as object, merge, converter),
+            validPath => this.stageSet(documentRef(this.api, validPath, {...this.appOptions, converter}) as DocumentReference<T>, data, merge)
+        );
+        return this;
+    }
+
+    /**
+     * Stage a write that updates some fields of an existing document.
+     * @param path The path to the document in Firestore
+     * @param changes The fields to be updated. The keys may be dot-separated paths to nested fields.
+     */
+    update<T extends DocumentData = DocumentData>(path: string[], changes: UpdateData<T>) {
+        this.stage(
+            path,
+            current => updateFields(current, changes),
+            validPath => this.stageUpdate(documentRef(this.api, validPath, this.appOptions) as DocumentReference<T>, changes)
+        );
+        return this;
+    }
+
+    /**
+     * Stage a write that deletes a document.
+     * @param path The path to the document in Firestore
+     */
+    delete(path: string[]) {
+        this.stage(
+            path,
+            () => null,
+            validPath => this.stageDelete(documentRef(this.api, validPath, this.appOptions))
+        );
+        return this;
+    }
+
+    protected abstract stageSet<T>(docRef: DocumentReference<T>, data: WithFieldValue<T>, merge: boolean): void;
+    protected abstract stageUpdate<T>(docRef: DocumentReference<T>, changes: UpdateData<T>): void;
+    protected abstract stageDelete(docRef: DocumentReference): void;
+
+    private stage(path: string[], computeNext: (current: unknown) => unknown, write: (validPath: string[]) => void) {
+        const validPath = validateWritePath(path);
+
+        // The Firestore write methods throw if the data is invalid, so the 
+        // optimistic write is recorded only after the Firestore write is staged.
+        write(validPath);
+        this.writes.push({hashValue: hashEntityKey(appKey(validPath, this.appOptions)), computeNext});
+    }
+}
+
+/**
+ * A wrapper around a Firestore `Transaction` that is passed to the update function
+ * of [runEntityTransaction](../functions/runEntityTransaction.html).
+ *
+ * Writes staged through this object are applied to the cache in a single step
+ * when the update function completes, before the transaction commits. They are
+ * rolled back if the transaction is retried or fails.
+ */
+export class EntityTransaction extends EntityWriter {
+
+    constructor(
+        api: EntityApi,
+        private readonly transaction: Transaction,
+        writes: StagedWrite[],
+        appOptions?: AppOptions
+    ) {
+        super(api, writes, appOptions);
+    }
+
+    /**
+     * Read a document within the transaction.
+     *
+     * @param path The path to the document in Firestore
+     * @param options Options for the read
+     * @returns A Promise that resolves to a `SuccessTuple` containing the document
+     *      data, or a `NotFoundTuple` if the document does not exist.
+     */
+    get<T = unknown>(path: string[], options?: TransactionGetOptions<T>): Promise<EntityTuple<T>> {
+        const validPath = validateWritePath(path);
+        if (options?.preferCache) {
+            const cached = this.lookupFresh<T>(hashEntityKey(appKey(validPath, this.appOptions)));
+            if (cached) {
+                return Promise.resolve(cached);
+            }
+        }
+
+        return this.transaction.get(documentRef(this.api, validPath, {...this.appOptions, converter: options?.converter})).then(
+            snapshot => snapshot.exists() ?
+                [snapshot.data() as T, undefined, 'success'] :
+                [null, undefined, 'notFound']
+        )
+    }
+
+    protected stageSet<T>(docRef: DocumentReference<T>, data: WithFieldValue<T>, merge: boolean) {
+        this.transaction.set(docRef, data, {merge});
+    }
+
+    protected stageUpdate<T>(docRef: DocumentReference<T>, changes: UpdateData<T>) {
+        this.transaction.update(docRef, changes);
+    }
+
+    protected stageDelete(docRef: DocumentReference) {
+        this.transaction.delete(docRef);
+    }
+
+    private lookupFresh<T>(hashValue: string) {
+        const client = this.api.getClient();
+        const cache = client.cache;
+        const metadata = lookupEntityMetadata(cache, hashValue);
+        const lease = client.leases.get(hashValue);
+        if (!lease || !isListenerLease(lease) || !metadata || metadata.fromCache || metadata.hasPendingWrites) {
+            return undefined;
+        }
+        const tuple = lookupEntityTuple<T>(cache, hashValue);
+        switch (tuple[2]) {
+            case 'success':
+            case 'notFound':
+                return tuple;
+
+            case 'removed':
+                return [null, undefined, 'notFound'] as EntityTuple<T>;
+        }
+        return undefined;
+    }
+}
+
+/**
+ * A wrapper around a Firestore `WriteBatch` that is returned by the
+ * [entityBatch](../functions/entityBatch.html) function.
+ *
+ * Writes staged through this object are applied to the cache in a single step
+ * when the batch is committed, without waiting for the server. They are rolled
+ * back if the commit fails.
+ */
+export class EntityBatch extends EntityWriter {
+    private readonly batch: WriteBatch;
+
+    constructor(api: EntityApi, appOptions?: AppOptions) {
+        super(api, [], appOptions);
+        this.batch = writeBatch(getFirestore(getFirebaseApp(api, appOptions)));
+    }
+
+    /**
+     * Commit all of the writes in this batch.
+     *
+     * @returns A Promise that resolves to a `SuccessTuple` if the batch was committed,
+     *      or an `ErrorTuple` if it was rejected. The Promise never rejects.
+     */
+    commit(): Promise<WriteResultTuple> {
+        const rollback = applyStagedWrites(this.api, this.writes);
+        return this.batch.commit().then(
+            () => [undefined, undefined, 'success'],
+            error => {
+                rollback();
+                return [undefined, asError(error, "Failed to commit batch"), 'error'];
+            }
+        )
+    }
+
+    protected stageSet<T>(docRef: DocumentReference<T>, data: WithFieldValue<T>, merge: boolean) {
+        this.batch.set(docRef, data, {merge});
+    }
+
+    protected stageUpdate<T>(docRef: DocumentReference<T>, changes: UpdateData<T>) {
+        this.batch.update(docRef, changes);
+    }
+
+    protected stageDelete(docRef: DocumentReference) {
+        this.batch.delete(docRef);
+    }
+}
+
+export function startTransaction<T>(
+    entityApi: EntityApi,
+    updateFunction: (transaction: EntityTransaction) => Promise<T>,
+    options?: TransactionOptions & AppOptions
+): Promise<SuccessTuple<T> | ErrorTuple> {
+    const db = getFirestore(getFirebaseApp(entityApi, options));
+
+    // Firestore may invoke the update function several times. The writes staged 
+    // by each attempt are applied before the attempt commits, and they are rolled
+    // back before the next attempt starts.
+    let rollback = () => {};
+
+    return runTransaction(db, transaction => {
+        rollback();
+        rollback = () => {};
+        const writes: StagedWrite[] = [];
+        return updateFunction(new EntityTransaction(entityApi, transaction, writes, options)).then(
+            result => {
+                rollback = applyStagedWrites(entityApi, writes);
+                return result;
+            }
+        );
+    }, options).then(
+        (result): SuccessTuple<T> => [result, undefined, 'success'],
+        (error): ErrorTuple => {
+            rollback();
+            return [undefined, asError(error, "Transaction failed"), 'error'];
+        }
+    )
+}
@@ -17,9 +17,20 @@ import { LeaseOptions, Unsubscribe } from "./types";
  * #### Using Leases
  * Applications don't manipulate leases directly. Certain hooks and functions will create
  * leases and make claims on behalf of a component.  These functions include:
+ * - [useAggregate](../functions/useAggregate.html)
  * - [useAuthListener](../functions/useAuthListener.html)
+ * - [useCallable](../functions/useCallable.html)
+ * - [useCollectionGroupListener](../functions/useCollectionGroupListener.html)
+ * - [useDocFetch](../functions/useDocFetch.html)
  * - [useDocListener](../functions/useDocListener.html)
+ * - [useDocsListener](../functions/useDocsListener.html)
+ * - [usePaginatedQuery](../functions/usePaginatedQuery.html)
+ * - [useQueryListener](../functions/useQueryListener.html)
+ * - [useRtdbListener](../functions/useRtdbListener.html)
+ * - [useStorageMetadata](../functions/useStorageMetadata.html)
+ * - [useStorageUrl](../functions/useStorageUrl.html)
  * - [setLeasedEntity](../functions/setLeasedEntity.html)
+ * - [uploadFile](../functions/uploadFile.html)
  * 
  * Utilize the [useReleaseAllClaims](../functions/useReleaseAllClaims.html) hook to release 
  * all claims held by a given component.
@@ -51,6 +62,13 @@ export class Lease {
      */
     unsubscribe?: Unsubscribe;
 
+    /**
+     * A function that reloads the leased entity from the server.
+     * 
+     * This function is defined only for entities that are fetched on demand 
+     * instead of being kept up-to-date by a listener.
+     */
+    refresh?: () => void;
     
     /**
      * Options provided when the Lease was created
@@ -64,6 +82,17 @@ export class Lease {
      */
     evictionToken?: ReturnType<typeof setTimeout>;
 
+    /**
+     * The time (in milliseconds since the epoch) at which the entity was
+     * abandoned, or `undefined` if the entity is claimed by some leasee.
+     */
+    abandonedAt?: number;
+
+    /**
+     * The name of the leasee that most recently claimed or released the entity.
+     */
+    lastLeasee?: string;
+
     /**
      * Create a new Lease.
      * 
@@ -84,6 +113,8 @@ export class Lease {
      */
     addLeasee(leasee: string) {
         this.ledger.add(leasee);
+        this.lastLeasee = leasee;
+        delete this.abandonedAt;
 
         if (this.evictionToken) {
             clearTimeout(this.evictionToken);
@@ -93,10 +124,14 @@ export class Lease {
 
     /**
      * Remove a leasee from the ledger. This method should be called only by EntityClient.
+     * It has no effect if the leasee does not hold a claim.
      * @param leasee The name of the leasee
      */
     removeLeasee(leasee: string) {
-        this.ledger.delete(leasee);
+        if (!this.ledger.delete(leasee)) {
+            return;
+        }
+        this.lastLeasee = leasee;
         if (this.ledger.size === 0) {
             if (this.evictionToken) {
                 // In theory, we should never get here, but just in case...
@@ -0,0 +1,243 @@
+import { collection, getFirestore, limit, onSnapshot, query, QueryDocumentSnapshot, QuerySnapshot, startAfter } from "firebase/firestore";
+import { getFirebaseApp, QueryListenerOptions, setSnapshotEntity, toQueryConstraint } from "./common";
+import { EntityApi } from "./EntityApi";
+import { claimLease, createLeasedEntity, notifyListenerError } from "./EntityClient";
+import { Lease } from "./Lease";
+import { setEntity } from "./setEntity";
+import { PaginatedQueryData, QueryConstraintSpec, Unsubscribe } from "./types";
+
+/** The number of documents per page if the `pageSize` option is not specified */
+export const DEFAULT_PAGE_SIZE = 25;
+
+/**
+ * Options passed to the [usePaginatedQuery](../functions/usePaginatedQuery.html) hook
+ * and the [watchPaginatedQuery](../functions/watchPaginatedQuery.html) function.
+ *
+ * The `transform` handler, if any, is applied to each page separately.
+ *
+ * @typeParam TServer The type of data stored in each Firestore document returned by the query.
+ * @typeParam TItem The type of each item within a page. If no `transform` handler is
+ *      defined, this template parameter defaults to the `TServer` type.
+ */
+export interface PaginatedQueryOptions<TServer, TItem=TServer> extends QueryListenerOptions<TServer, TItem[]> {
+
+    /**
+     * The maximum number of documents in each page. The default value is 25.
+     */
+    pageSize?: number;
+}
+
+export function paginatedQueryKey(path: string[], pageSize: number, constraints: QueryConstraintSpec[]) {
+    return [{paginatedQuery: path, pageSize}, ...constraints];
+}
+
+interface QueryPage<TItem> {
+    snapshot?: QuerySnapshot;
+    items?: TItem[];
+    error?: Error;
+    unsubscribe: Unsubscribe;
+}
+
+const paginators = new WeakMap<Lease, QueryPaginator<unknown, unknown>>();
+
+/**
+ * Manages the live listeners for the pages of a paginated query.
+ *
+ * Each page is fetched by a query that starts after the last document of the
+ * previous page. The pages are combined into a single
+ * [PaginatedQueryData](../interfaces/PaginatedQueryData.html) entity which is
+ * governed by one Lease.  When that Lease is evicted, the listeners for all pages
+ * are cancelled together.
+ */
+class QueryPaginator<TRaw, TItem> {
+    private readonly pages: QueryPage<TItem>[] = [];
+
+    constructor(
+        private readonly api: EntityApi,
+        private readonly leasee: string,
+        private readonly hashValue: string,
+        private readonly path: string[],
+        private readonly constraints: QueryConstraintSpec[],
+        private readonly pageSize: number,
+        private readonly options?: PaginatedQueryOptions<TRaw, TItem>
+    ) {}
+
+    /**
+     * Start a listener for the next page, unless the last page is still loading
+     * or it is known that there are no more pages.
+     */
+    loadMore() {
+        const pages = this.pages;
+        const lastPage = pages[pages.length-1];
+        let cursor: QueryDocumentSnapshot | undefined = undefined;
+        if (lastPage) {
+            const snapshot = lastPage.snapshot;
+            if (lastPage.error || !snapshot || snapshot.size < this.pageSize) {
+                return;
+            }
+            cursor = snapshot.docs[snapshot.docs.length-1];
+        }
+        this.addPage(cursor);
+        this.publish();
+    }
+
+    unsubscribe() {
+        this.pages.forEach(page => page.unsubscribe());
+    }
+
+    private addPage(cursor: QueryDocumentSnapshot | undefined) {
+        const {api, leasee, path, constraints, options} = this;
+        const transform = options?.transform;
+        const includeMetadataChanges = Boolean(options?.includeMetadataChanges);
+
+        const [collectionName, ...collectionKeys] = path;
+        const db = getFirestore(getFirebaseApp(api, options));
+        const collectionRef = collection(db, collectionName, ...collectionKeys);
+        const queryConstraints = constraints.map(toQueryConstraint);
+        if (cursor) {
+            queryConstraints.push(startAfter(cursor));
+        }
+        queryConstraints.push(limit(this.pageSize));
+
+        const page: QueryPage<TItem> = {unsubscribe: () => {}};
+        this.pages.push(page);
+
+        const q = query(collectionRef, ...queryConstraints);
+        page.unsubscribe = onSnapshot(q, {includeMetadataChanges}, snapshot => {
+            page.snapshot = snapshot;
+            delete page.error;
+            const data = snapshot.docs.map(doc => doc.data() as TRaw);
+            try {
+                page.items = transform ?
+                    transform({
+                        api,
+                        leasee,
+                        path,
+                        collectionGroup: false,
+                        constraints,
+                        snapshot,
+                        data
+                    }) :
+                    data as unknown as TItem[];
+            } catch (transformError) {
+                page.error = transformError as Error;
+            }
+            this.publish();
+
+        }, error => {
+            page.error = error;
+            this.publish();
+            notifyListenerError(api.getClient(), this.hashValue, error);
+
+            const onError = options?.onError;
+            if (onError) {
+                onError({
+                    api,
+                    leasee,
+                    path,
+                    collectionGroup: false,
+                    constraints,
+                    error
+                });
+            }
+        })
+    }
+
+    /**
+     * Combine the pages into a single entity and put it into the cache.
+     */
+    private publish() {
+        const {api, hashValue, pages} = this;
+        const value = this.combinePages();
+
+        const snapshots = pages.map(page => page.snapshot).filter(Boolean) as QuerySnapshot[];
+        if (snapshots.length > 0) {
+            setSnapshotEntity(api, hashValue, {
+                fromCache: snapshots.some(snapshot => snapshot.metadata.fromCache),
+                hasPendingWrites: snapshots.some(snapshot => snapshot.metadata.hasPendingWrites)
+            }, value);
+        } else {
+            setEntity(api, hashValue, value);
+        }
+    }
+
+    /**
+     * Compute the value of the entity: the error from the first page that failed, 
+     * `undefined` if no page has loaded, or the PaginatedQueryData.
+     */
+    private combinePages() {
+        const pages = this.pages;
+
+        const errorPage = pages.find(page => page.error);
+        if (errorPage) {
+            return errorPage.error;
+        }
+
+        const loadedPages: TItem[][] = [];
+        for (const page of pages) {
+            if (!page.items) {
+                break;
+            }
+            loadedPages.push(page.items);
+        }
+
+        if (loadedPages.length === 0) {
+            return undefined;
+        }
+
+        const lastPage = pages[pages.length-1];
+        const lastSnapshot = lastPage.snapshot;
+        const data: PaginatedQueryData<TItem> = {
+            pages: loadedPages,
+            hasMore: !lastSnapshot || lastSnapshot.size >= this.pageSize,
+            loadingMore: loadedPages.length < pages.length
+        }
+        return data;
+    }
+}
+
+export function startPaginatedQuery<
+    TRaw = unknown,
+    TItem = TRaw
+> (
+    entityApi: EntityApi,
+    leasee: string,
+    validPath: string[] | null,
+    validConstraints: QueryConstraintSpec[] | null,
+    hashValue: string,
+    options?: PaginatedQueryOptions<TRaw, TItem>
+) {
+    if (!validPath || !validConstraints) {
+        return;
+    }
+
+    const client = entityApi.getClient();
+    const lease = client.leases.get(hashValue);
+    const leaseOptions = options?.leaseOptions;
+    if (lease?.unsubscribe) {
+        claimLease(client, hashValue, leasee, leaseOptions);
+    } else {
+        const paginator = new QueryPaginator<TRaw, TItem>(
+            entityApi,
+            leasee,
+            hashValue,
+            validPath,
+            validConstraints,
+            options?.pageSize || DEFAULT_PAGE_SIZE,
+            options
+        );
+
+        createLeasedEntity(client, () => paginator.unsubscribe(), hashValue, leasee, leaseOptions);
+        // The type parameters do not matter when loading more pages.
+        paginators.set(client.leases.get(hashValue)!, paginator as QueryPaginator<unknown, unknown>);
+        paginator.loadMore();
+    }
+}
+
+export function loadMorePages(entityApi: EntityApi, hashValue: string) {
+    const lease = entityApi.getClient().leases.get(hashValue);
+    const paginator = lease && paginators.get(lease);
+    if (paginator) {
+        paginator.loadMore();
+    }
+}
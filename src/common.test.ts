@@ -0,0 +1,24 @@
+import { combineEntityTuples } from "./common";
+import { EntityTuple } from "./types";
+
+describe('combineEntityTuples', () => {
+
+    it('keeps the position of each tuple when some are idle', () => {
+        const tuples: EntityTuple<string>[] = [
+            ['a', undefined, 'success'],
+            [undefined, undefined, 'idle'],
+            ['c', undefined, 'success']
+        ];
+
+        expect(combineEntityTuples(tuples)).toEqual([['a', null, 'c'], undefined, 'success']);
+    })
+
+    it('is idle if every tuple is idle', () => {
+        const tuples: EntityTuple<string>[] = [
+            [undefined, undefined, 'idle'],
+            [undefined, undefined, 'idle']
+        ];
+
+        expect(combineEntityTuples(tuples)).toEqual([undefined, undefined, 'idle']);
+    })
+})
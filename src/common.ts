@@ -1,12 +1,41 @@
-import { collection, documentId, getFirestore, onSnapshot, query, where } from "firebase/firestore";
+import { getDatabase, onValue, ref } from "firebase/database";
+import { FirebaseError } from "firebase/app";
+import { AuthCredential, getAuth, OAuthProvider, onIdTokenChanged } from "firebase/auth";
+import { getFunctions, httpsCallable, HttpsCallableOptions } from "firebase/functions";
+import { getDownloadURL, getMetadata, getStorage, ref as storageRef, UploadMetadata, uploadBytesResumable, UploadTaskSnapshot } from "firebase/storage";
+import produce, { isDraft, original } from "immer";
+import { collection, collectionGroup, deleteField, doc, DocumentChange, DocumentChangeType, DocumentData, DocumentReference, DocumentSnapshot, FieldValue, FirestoreDataConverter, getCountFromServer, getDoc, getDocFromCache, getFirestore, limit, limitToLast, onSnapshot, orderBy, query, QueryConstraint, QueryDocumentSnapshot, SnapshotMetadata, where } from "firebase/firestore";
 import { EntityApi } from "./EntityApi";
-import { claimLease, createLeasedEntity } from "./EntityClient";
+import { claimLease, createLeasedEntity, derivedLeasee, EntityClient, leaseEvent, notifyListenerError, releaseLeaseClaim } from "./EntityClient";
+import { Lease } from "./Lease";
 import { setEntity } from "./setEntity";
-import { AuthTuple, Cache, DocChangeEvent, DocErrorEvent, DocRemovedEvent, EntityTuple, LeaseOptions, PathElement } from "./types";
+import { AggregateData, AggregateErrorEvent, AggregateSpec, AuthAction, AuthActionTuple, AuthTuple, Cache, CallableErrorEvent, DocChangeEvent, DocErrorEvent, DocFetchEvent, DocRemovedEvent, EntityKey, EntityMetadata, EntityTuple, LeaseOptions, PathElement, QueryChangeEvent, QueryConstraintSpec, QueryErrorEvent, RtdbChangeEvent, RtdbErrorEvent, RtdbRemovedEvent, StorageErrorEvent, StorageMetadata, SuccessTuple, UploadProgress, ErrorTuple, ValidationIssue, Validator, WriteResultTuple } from "./types";
+import { asError, hashEntityKey, isPlainObject, validateKey } from "./util";
 
 /** The key under which the authenticated user is stored in the EntityCache */
 export const CURRENT_USER = 'currentUser';
 
+/**
+ * The key under which the `IdTokenResult` of the authenticated user is stored
+ * in the cache, if the `includeIdToken` option is passed to 
+ * [useAuthListener](../functions/useAuthListener.html).
+ */
+export const AUTH_CLAIMS = 'authClaims';
+
+/** 
+ * The value stored in the cache for a document that does not exist in Firestore.
+ * A symbol is used so that the value cannot be mistaken for document data. 
+ * It is never persisted or dehydrated, so such entities are read again by the client.
+ */
+export const NOT_FOUND = Symbol('notFound');
+
+/** 
+ * The key under which snapshot metadata for leased entities is stored in the cache.
+ * The value is a record that maps the hash of an EntityKey to its 
+ * [EntityMetadata](../interfaces/EntityMetadata.html).
+ */
+export const ENTITY_METADATA = 'entityMetadata';
+
 export function validatePath(path: PathElement[]) {
     for (const value of path) {
         
@@ -25,11 +54,123 @@ export function validatePath(path: PathElement[]) {
  * Firestore `uid` values.
  */
 export class IncompatibleIdentityProviderError extends Error {
-    constructor(message?: string) {
+
+    /** The email address of the existing account, if known */
+    readonly email?: string;
+
+    /** 
+     * The credential from the failed sign-in, if available. After the user signs in
+     * with the identity provider used during registration, pass this credential to 
+     * `linkWithCredential` to link the two providers.
+     */
+    readonly credential?: AuthCredential;
+
+    constructor(message?: string, email?: string, credential?: AuthCredential) {
         super(message || 'An incompatible identity provider was used to sign in');
+        // Restore the prototype chain, which is broken when extending Error in ES5.
+        Object.setPrototypeOf(this, IncompatibleIdentityProviderError.prototype);
+        this.email = email;
+        this.credential = credential;
+    }
+}
+
+/**
+ * The error stored in the cache when the data in a Firestore document fails 
+ * validation by the `validate` option of 
+ * [DocListenerOptions](../interfaces/DocListenerOptions.html).
+ */
+export class SchemaValidationError extends Error {
+
+    /** The path to the document whose data is invalid */
+    readonly path: string[];
+
+    /** The problems found in the document data */
+    readonly issues: ValidationIssue[];
+
+    constructor(path: string[], issues: ValidationIssue[]) {
+        super(
+            `Invalid data in document "${path.join('/')}"` + 
+            (issues.length > 0 ? `: ${issues[0].message}` : '')
+        );
+        // Restore the prototype chain, which is broken when extending Error in ES5.
+        Object.setPrototypeOf(this, SchemaValidationError.prototype);
+        this.path = path;
+        this.issues = issues;
+    }
+}
+
+/**
+ * Validate the data from a Firestore document.
+ * @returns The validated data
+ * @throws SchemaValidationError if the data is invalid
+ */
+export function validateData<T>(validator: Validator<T>, path: string[], data: unknown): T {
+    if (typeof validator === 'function') {
+        return parseWith(path, () => validator(data));
+    }
+    if ('safeParse' in validator) {
+        const result = validator.safeParse(data);
+        if (result.success) {
+            return result.data;
+        }
+        throw new SchemaValidationError(path, toValidationIssues(result.error));
+    }
+    return parseWith(path, () => validator.parse(data));
+}
+
+function parseWith<T>(path: string[], parse: () => T) {
+    try {
+        return parse();
+    } catch (error) {
+        throw new SchemaValidationError(path, toValidationIssues(error));
+    }
+}
+
+function toValidationIssues(error: unknown): ValidationIssue[] {
+    if (error && typeof error === 'object') {
+        const {issues, message} = error as {issues?: unknown, message?: unknown};
+        if (Array.isArray(issues)) {
+            return issues.map((issue: unknown) => {
+                const {message, path} = (issue || {}) as {message?: unknown, path?: unknown};
+                return {
+                    message: String(message),
+                    path: Array.isArray(path) ? path as (string | number)[] : undefined
+                };
+            })
+        }
+        if (typeof message === 'string' && message) {
+            return [{message}];
+        }
     }
+    return [{message: String(error)}];
+}
+
+/**
+ * Options for selecting one of the FirebaseApps passed to the 
+ * [FirebaseProvider](../functions/FirebaseProvider.html).
+ */
+export interface AppOptions {
+
+    /**
+     * The name of a FirebaseApp in the `apps` prop of the FirebaseProvider.
+     * If not defined, the default `firebaseApp` is used.
+     * 
+     * Entities from a named app are stored under keys that include the app name.
+     */
+    app?: string;
+}
+
+/**
+ * Qualify an EntityKey with the app name, if a named app is selected.
+ */
+export function appKey(key: EntityKey, options?: AppOptions): EntityKey {
+    const app = options?.app;
+    return app ? [{app}, ...key] : key;
 }
 
+export function getFirebaseApp(entityApi: EntityApi, options?: AppOptions) {
+    return entityApi.getClient().getFirebaseApp(options?.app);
+}
 
 /**
  * Options passed to the [useDocListener](../functions/useDocListener.html) hook
@@ -40,7 +181,41 @@ export class IncompatibleIdentityProviderError extends Error {
  *      If no `transform` handler is defined, this template parameter defaults to 
  *      the `TServer` type.
  */
-export interface DocListenerOptions<TServer, TFinal=TServer> {
+export interface DocListenerOptions<TServer, TFinal=TServer> extends AppOptions {
+
+    /**
+     * A Firestore data converter for the document. If a converter is given, the 
+     * data in the snapshot (and in the `data` property of events) is the value
+     * returned by its `fromFirestore` method.
+     * 
+     * The `TServer` type parameter is inferred from the converter, so the same 
+     * converter can be used to read a document with this option and to write it 
+     * with [setDocument](../functions/setDocument.html).
+     */
+    converter?: FirestoreDataConverter<TServer>;
+
+    /**
+     * Validates the data in each snapshot before it is transformed and stored
+     * in the cache. The validator may be a function, or a schema object 
+     * (such as a [zod](https://zod.dev) schema) having a `safeParse` or `parse` method.
+     * 
+     * If the data is invalid, a {@link SchemaValidationError} holding the document
+     * path and the list of issues is stored in the cache, and the entity has 
+     * the "error" status.
+     * 
+     * #### Example
+     * ```typescript
+     *  const City = z.object({
+     *      cityName: z.string(),
+     *      population: z.number()
+     *  });
+     * 
+     *  const [city, cityError, cityStatus] = useDocListener(
+     *      "CityComponent", ["cities", cityId], {validate: City}
+     *  );
+     * ```
+     */
+    validate?: Validator<TServer>;
 
     /**
      * A kind of event handler that allows you to transform the
@@ -109,7 +284,10 @@ export interface DocListenerOptions<TServer, TFinal=TServer> {
     transform?: (event: DocChangeEvent<TServer>) => TFinal | undefined;
 
     /**
-     * An event handler that is called when a document is removed from Firestore
+     * An event handler that is called when a document is removed from Firestore.
+     * 
+     * This handler is not called if the document did not exist when the listener
+     * started. In that case, the entity has the "notFound" status.
      * @param event The event that fired when the document was removed
      * @typeParam TServer The type of data stored in the Firestore document
      */
@@ -122,6 +300,52 @@ export interface DocListenerOptions<TServer, TFinal=TServer> {
      */
     onError?: (event: DocErrorEvent) => void;
 
+    /**
+     * If `true`, the document listener receives snapshots when only the metadata
+     * of the document changes, e.g. when a local write is committed on the server.
+     * 
+     * The snapshot metadata is available via the 
+     * [useEntityMetadata](../functions/useEntityMetadata.html) hook and the
+     * [getEntityMetadata](../functions/getEntityMetadata.html) function. Without this 
+     * option, the metadata is updated only when the document data changes.
+     */
+    includeMetadataChanges?: boolean;
+
+    /**
+     * The names of fields that hold a `DocumentReference` (or an array of 
+     * `DocumentReference` values) which should be resolved.
+     * 
+     * For each resolved field, a document listener is started for the referenced
+     * document, and the tuple returned by the hook
+     * or function is a *joined view* in which the field holds the data of the 
+     * referenced document instead of the reference. The data is `null` if the
+     * referenced document was removed or not found.
+     * 
+     * The status of the joined view combines the status of the document with the 
+     * status of each referenced document: it is "pending" until all of the
+     * referenced documents have been received, and "error" if any of them failed.
+     * 
+     * The fields are resolved from the data stored in the cache, i.e. after the
+     * `transform` handler (if any) has been applied. When a reference changes, the 
+     * claim on the previously referenced document is released. The claims on
+     * referenced documents are released together with the other claims of the leasee.
+     * 
+     * #### Example
+     * ```typescript
+     *  interface Post {
+     *      title: string;
+     *      author: DocumentReference | Author;
+     *  }
+     *  const [post, postError, postStatus] = useDocListener<Post>(
+     *      "PostComponent", ["posts", postId], {resolve: ["author"]}
+     *  );
+     *  if (postStatus === "success") {
+     *      const author = post.author as Author;
+     *  }
+     * ```
+     */
+    resolve?: string[];
+
     /**
      * Options used to create a Lease for the document data.
      * A lease is created the first time that 
@@ -133,6 +357,23 @@ export interface DocListenerOptions<TServer, TFinal=TServer> {
     leaseOptions?: LeaseOptions;
 }
 
+/**
+ * Get a reference to the document at the given path, using the converter if any.
+ * 
+ * The reference is typed as a plain `DocumentReference` so that snapshots can be 
+ * passed to event handlers. Callers must cast the data to the converter's type.
+ */
+export function documentRef(
+    entityApi: EntityApi,
+    validPath: string[],
+    options?: AppOptions & {converter?: FirestoreDataConverter<unknown>}
+) {
+    const converter = options?.converter;
+    const db = getFirestore(getFirebaseApp(entityApi, options));
+    const docRef = doc(db, validPath.join('/'));
+    return (converter ? docRef.withConverter(converter) : docRef) as DocumentReference;
+}
+
 export function startDocListener<
     TRaw = unknown, // The raw type stored in Firestore
     TFinal = TRaw,  // The final type, if a transform is applied
@@ -148,70 +389,79 @@ export function startDocListener<
     }
 
     const lease = entityApi.getClient().leases.get(hashValue);
-    const unsubscribe = lease?.unsubscribe;
 
     const leaseOptions = options?.leaseOptions;
-    if (unsubscribe) {
+    if (lease?.unsubscribe && !lease.refresh) {
         claimLease(entityApi.getClient(), hashValue, leasee, leaseOptions);
     } else { 
+
+        if (lease?.refresh) {
+            // The document was fetched by `startDocFetch`. The listener takes over
+            // the entity, so stop refetching it.
+            stopLeasedFetch(lease);
+        }
         
         const transform = options?.transform;
+        const validate = options?.validate;
         const onRemoved = options?.onRemoved;
 
-        const collectionName = validPath[0];
-        const collectionKeys = validPath.slice(1, validPath.length-1);
-        const docId = validPath[validPath.length-1];
-        const db = getFirestore(entityApi.getClient().firebaseApp);
-        const collectionRef = collection(db, collectionName, ...collectionKeys);
-    
-        const q = query(collectionRef, where(documentId(), "==", docId));
-
-        const unsubscribe = onSnapshot(q, snapshot => {
-
-            snapshot.docChanges().forEach(change => {
-                switch (change.type) {
-                    case 'added':
-                    case 'modified': {
-                        const data = change.doc.data() as TRaw;
-
-                        try {
-                            const finalData = transform ?
-                                transform({
-                                    api:entityApi,
-                                    leasee,
-                                    data,
-                                    path: validPath,
-                                    change
-                                }) :
-                                data;
-    
-                            setEntity(entityApi, hashValue, finalData);
-                        } catch (transformError) {
-                            setEntity(entityApi, hashValue, transformError);
-                        }
-
-                        break;
-                    }
-                    case 'removed': {
-
-                        setEntity(entityApi, hashValue, null);
-                        if (onRemoved) {
-                            const data = change.doc.data() as TRaw;
-                            onRemoved({
-                                api:entityApi,
-                                leasee,
-                                data,
-                                path: validPath,
-                                change
-                            });
-                        }
-                        break;
-                    }
+        const docRef = documentRef(entityApi, validPath, options);
+
+        // The most recent snapshot in which the document existed. This is used to
+        // distinguish a document that was removed from one that was never found, 
+        // and its data is supplied to the `onRemoved` handler.
+        let lastSnapshot: DocumentSnapshot | undefined = undefined;
+
+        const includeMetadataChanges = Boolean(options?.includeMetadataChanges);
+
+        const unsubscribe = onSnapshot(docRef, {includeMetadataChanges}, snapshot => {
+
+            if (snapshot.exists()) {
+                const rawData = snapshot.data() as TRaw;
+                const change = toDocumentChange(lastSnapshot ? 'modified' : 'added', snapshot);
+                lastSnapshot = snapshot;
+
+                try {
+                    const data = validate ? validateData(validate, validPath, rawData) : rawData;
+                    const finalData = transform ?
+                        transform({
+                            api:entityApi,
+                            leasee,
+                            data,
+                            path: validPath,
+                            snapshot,
+                            change
+                        }) :
+                        data;
+
+                    setSnapshotEntity(entityApi, hashValue, snapshot.metadata, finalData);
+                } catch (transformError) {
+                    setSnapshotEntity(entityApi, hashValue, snapshot.metadata, transformError);
                 }
-            })
+
+            } else if (lastSnapshot === undefined) {
+                setSnapshotEntity(entityApi, hashValue, snapshot.metadata, NOT_FOUND);
+
+            } else {
+                const previous = lastSnapshot;
+                lastSnapshot = undefined;
+
+                setSnapshotEntity(entityApi, hashValue, snapshot.metadata, null);
+                if (onRemoved) {
+                    onRemoved({
+                        api:entityApi,
+                        leasee,
+                        data: previous.data() as TRaw,
+                        path: validPath,
+                        snapshot,
+                        change: toDocumentChange('removed', previous)
+                    });
+                }
+            }
         }, error => {
 
             setEntity(entityApi, hashValue, error);
+            notifyListenerError(entityApi.getClient(), hashValue, error);
 
             const onError = options?.onError;
             if (onError) {
@@ -229,15 +479,1400 @@ export function startDocListener<
 
 }
 
-export function lookupAuthTuple<UserType>(cache: Cache): AuthTuple<UserType> {
-    const entity = cache[CURRENT_USER];
-    
-    return (
-        entity===undefined      ? [undefined, undefined, 'pending'] :
-        entity===null           ? [null, undefined, 'signedOut'] :
-        entity instanceof Error ? [undefined, entity as Error, 'error'] :
-                                  [entity as UserType, undefined, 'signedIn']
-    )
+/**
+ * Describe a snapshot received by a document listener as a `DocumentChange`, for
+ * handlers that read the deprecated `change` property of a `DocMutationEvent`.
+ * @param snapshot The snapshot of the document. For a removed document, this is
+ *      the last snapshot in which the document existed.
+ */
+function toDocumentChange(type: DocumentChangeType, snapshot: DocumentSnapshot): DocumentChange {
+    return {
+        type,
+        doc: snapshot as QueryDocumentSnapshot,
+        oldIndex: type === 'added' ? -1 : 0,
+        newIndex: type === 'removed' ? -1 : 0
+    }
+}
+
+/**
+ * Options passed to the [useDocFetch](../functions/useDocFetch.html) hook
+ * and the [fetchEntity](../functions/fetchEntity.html) function.
+ * 
+ * @typeParam TServer The type of data stored in the Firebase document.
+ * @typeParam TFinal The type of data returned by the `transform` handler, if any.
+ *      If no `transform` handler is defined, this template parameter defaults to 
+ *      the `TServer` type.
+ */
+export interface DocFetchOptions<TServer, TFinal=TServer> extends AppOptions {
+
+    /**
+     * A Firestore data converter for the document. 
+     * 
+     * See the [converter](./DocListenerOptions.html#converter) option in 
+     * `DocListenerOptions` for details.
+     */
+    converter?: FirestoreDataConverter<TServer>;
+
+    /**
+     * Validates the data in each fetched document before it is transformed and
+     * stored in the cache.
+     * 
+     * See the [validate](./DocListenerOptions.html#validate) option in 
+     * `DocListenerOptions` for details.
+     */
+    validate?: Validator<TServer>;
+
+    /**
+     * An event handler that transforms the raw data received from Firestore into
+     * a different data shape for use in your application. This event handler fires
+     * each time the document is fetched.
+     * 
+     * See the [transform](./DocListenerOptions.html#transform) handler in 
+     * `DocListenerOptions` for an example.
+     * 
+     * @param event The event that fired
+     * @returns The transformed data for storage within the cache, or `undefined` if
+     *   the transformed structure relies on other server-side entities that are pending.
+     * @throws The transform function may throw an Error if it is impossible to create
+     *  the transformed structure. That error will be stored in the cache.
+     */
+    transform?: (event: DocFetchEvent<TServer>) => TFinal | undefined;
+
+    /**
+     * An event handler that is called if an error occurs while fetching
+     * the document from Firestore.
+     * @param event The event that fired when the error occurred
+     */
+    onError?: (event: DocErrorEvent) => void;
+
+    /**
+     * The number of milliseconds between automatic refetches of the document.
+     * If this value is not defined, the document is fetched only once, unless
+     * it is refetched explicitly.
+     */
+    refetchInterval?: number;
+
+    /**
+     * If `true`, attempt to read the document from the local Firestore cache
+     * before reading it from the server. The server is used only if the document
+     * is not available in the local cache.
+     */
+    preferCache?: boolean;
+
+    /**
+     * Options used to create a Lease for the document data.
+     * A lease is created the first time that the document is fetched.
+     * Subsequent calls with the same path will detect that the document
+     * is being managed already, and the `leaseOptions` will be ignored.
+     */
+    leaseOptions?: LeaseOptions;
+}
+
+export function startDocFetch<
+    TRaw = unknown,
+    TFinal = TRaw
+> (
+    entityApi: EntityApi,
+    leasee: string,
+    validPath: string[] | null,
+    hashValue: string,
+    options?: DocFetchOptions<TRaw, TFinal>
+) {
+    if (!validPath) {
+        return;
+    }
+
+    const validate = options?.validate;
+    const transform = options?.transform;
+    const preferCache = options?.preferCache;
+    const onError = options?.onError;
+
+    const docRef = documentRef(entityApi, validPath, options);
+
+    const toValue = (snapshot: DocumentSnapshot) => {
+        if (!snapshot.exists()) {
+            return NOT_FOUND;
+        }
+        const rawData = snapshot.data() as TRaw;
+        try {
+            const data = validate ? validateData(validate, validPath, rawData) : rawData;
+            return transform ?
+                transform({
+                    api: entityApi,
+                    leasee,
+                    path: validPath,
+                    snapshot,
+                    data
+                }) :
+                data;
+        } catch (transformError) {
+            return transformError;
+        }
+    }
+
+    const fetchDoc = async () => {
+        const snapshot: DocumentSnapshot = preferCache ?
+            await getDocFromCache(docRef).catch(() => getDoc(docRef)) :
+            await getDoc(docRef);
+
+        return {value: toValue(snapshot), metadata: snapshot.metadata};
+    }
+
+    startLeasedFetch(entityApi, leasee, hashValue, fetchDoc, {
+        store: ({value, metadata}) => setSnapshotEntity(entityApi, hashValue, metadata, value),
+        refetchInterval: options?.refetchInterval,
+        leaseOptions: options?.leaseOptions,
+        onError: onError && (error => onError({
+            api: entityApi,
+            leasee,
+            path: validPath,
+            error
+        }))
+    });
+}
+
+/**
+ * Options for an entity managed by `startLeasedFetch`
+ */
+export interface LeasedFetchOptions<T> {
+    /** 
+     * A function that puts a fetched value into the cache. By default, the value
+     * is stored with `setEntity`.
+     */
+    store?: (value: T) => void;
+
+    /** The number of milliseconds between automatic refetches of the entity */
+    refetchInterval?: number;
+
+    /** Options used to create a Lease for the entity */
+    leaseOptions?: LeaseOptions;
+
+    /** A function called if the fetcher rejects */
+    onError?: (error: Error) => void;
+}
+
+/**
+ * Start managing an entity that is fetched on demand instead of being kept
+ * up-to-date by a listener.
+ * 
+ * If a Lease for the entity exists already, this function simply makes a claim
+ * on behalf of the leasee. Otherwise, it creates a Lease whose `refresh` method
+ * invokes the `fetcher` and stores the resolved value in the cache. If the 
+ * fetcher rejects, the error is stored in the cache instead.
+ * 
+ * Values that arrive after the entity has been evicted, after a listener has
+ * taken over the entity, or after a later refresh has started, are discarded.
+ */
+export function startLeasedFetch<T>(
+    entityApi: EntityApi,
+    leasee: string,
+    hashValue: string,
+    fetcher: () => Promise<T>,
+    options?: LeasedFetchOptions<T>
+) {
+    const client = entityApi.getClient();
+    const lease = client.leases.get(hashValue);
+    const leaseOptions = options?.leaseOptions;
+    if (lease?.unsubscribe) {
+        claimLease(client, hashValue, leasee, leaseOptions);
+        return;
+    }
+
+    // Incremented by each refresh so that responses to earlier requests are discarded.
+    let requestCount = 0;
+
+    const refresh = () => {
+        const requestId = ++requestCount;
+        const isCurrent = () => (
+            requestId === requestCount &&
+            isLeaseActive(entityApi, hashValue, newLease) && 
+            newLease.refresh === refresh
+        );
+
+        fetcher().then(value => {
+            if (isCurrent()) {
+                if (options?.store) {
+                    options.store(value);
+                } else {
+                    setEntity(entityApi, hashValue, value);
+                }
+            }
+        }, error => {
+            if (isCurrent()) {
+                setEntity(entityApi, hashValue, error);
+                if (options?.onError) {
+                    options.onError(error);
+                }
+            }
+        })
+    }
+
+    const refetchInterval = options?.refetchInterval;
+    const intervalToken = refetchInterval ? setInterval(refresh, refetchInterval) : undefined;
+    const unsubscribe = () => {
+        if (intervalToken) {
+            clearInterval(intervalToken);
+        }
+    }
+
+    createLeasedEntity(client, unsubscribe, hashValue, leasee, leaseOptions, refresh);
+    const newLease = client.leases.get(hashValue)!;
+    refresh();
+}
+
+/**
+ * Stop refetching an entity managed by `startLeasedFetch`, so that a listener can
+ * take over the lease. Responses that are still in flight are discarded.
+ */
+function stopLeasedFetch(lease: Lease) {
+    if (lease.unsubscribe) {
+        lease.unsubscribe();
+    }
+    delete lease.unsubscribe;
+    delete lease.refresh;
+}
+
+/**
+ * Returns `true` if the given lease still governs the entity with the given key,
+ * i.e. the entity has not been evicted since the lease was created.
+ */
+function isLeaseActive(entityApi: EntityApi, hashValue: string, lease: Lease) {
+    return entityApi.getClient().leases.get(hashValue) === lease;
+}
+
+export function refreshLeasedEntity(entityApi: EntityApi, hashValue: string | null) {
+    const lease = hashValue ? entityApi.getClient().leases.get(hashValue) : undefined;
+    if (lease?.refresh) {
+        lease.refresh();
+    }
+}
+
+/**
+ * Options passed to the [useQueryListener](../functions/useQueryListener.html) and
+ * [useCollectionGroupListener](../functions/useCollectionGroupListener.html) hooks, 
+ * and the [watchQuery](../functions/watchQuery.html) and 
+ * [watchCollectionGroup](../functions/watchCollectionGroup.html) functions.
+ * 
+ * @typeParam TServer The type of data stored in each Firestore document returned by the query.
+ * @typeParam TFinal The type of data returned by the `transform` handler, if any.
+ *      If no `transform` handler is defined, this template parameter defaults to 
+ *      an array of `TServer` values.
+ */
+export interface QueryListenerOptions<TServer, TFinal=TServer[]> extends AppOptions {
+
+    /**
+     * A kind of event handler that allows you to transform the raw data received 
+     * from a Firestore query into a different data shape for use in your application.
+     * This event handler fires when the query results are first received from Firestore
+     * and again whenever those results change.
+     * 
+     * By default, the query results are stored in the cache as an array containing
+     * the data from each document. Since the document data does not include the
+     * document id, you might use a `transform` handler to merge the ids into the data.
+     * 
+     * #### Example
+     * ```typescript
+     *  function cityListTransform(event: QueryChangeEvent<ServerCity>): ClientCity[] {
+     *      return event.snapshot.docs.map(
+     *          doc => ({...doc.data() as ServerCity, id: doc.id})
+     *      );
+     *  }
+     * ```
+     * 
+     * @param event The event that fired
+     * @returns The transformed data for storage within the cache, or `undefined` if
+     *   the transformed structure relies on other server-side entities that are pending.
+     * @throws The transform function may throw an Error if it is impossible to create
+     *  the transformed structure. That error will be stored in the cache.
+     */
+    transform?: (event: QueryChangeEvent<TServer>) => TFinal | undefined;
+
+    /**
+     * An event handler that is called if an error occurs while listening
+     * to the query results.
+     * @param event The event that fired when the error occurred
+     */
+    onError?: (event: QueryErrorEvent) => void;
+
+    /**
+     * If `true`, the query listener receives snapshots when only the metadata
+     * of the query results changes.
+     * 
+     * See the [includeMetadataChanges](./DocListenerOptions.html#includeMetadataChanges) 
+     * option in `DocListenerOptions` for details.
+     */
+    includeMetadataChanges?: boolean;
+
+    /**
+     * Options used to create a Lease for the query results.
+     * A lease is created the first time that a query listener is started 
+     * for a given combination of `path` and `constraints`.
+     * Subsequent calls with the same query will detect that a listener is
+     * running, and the `leaseOptions` will be ignored.
+     */
+    leaseOptions?: LeaseOptions;
+}
+
+export function validateConstraints(constraints: QueryConstraintSpec[]) {
+    return validateKey(constraints) as QueryConstraintSpec[] | null;
+}
+
+export function toQueryConstraint(spec: QueryConstraintSpec): QueryConstraint {
+    switch (spec[0]) {
+        case 'where':
+            return where(spec[1], spec[2], spec[3]);
+        case 'orderBy':
+            return orderBy(spec[1], spec[2]);
+        case 'limit':
+            return limit(spec[1]);
+        case 'limitToLast':
+            return limitToLast(spec[1]);
+    }
+}
+
+export function queryKey(path: PathElement[], constraints: QueryConstraintSpec[]) {
+    return [...path, ...constraints];
+}
+
+export function collectionGroupKey(collectionId: string, constraints: QueryConstraintSpec[]) {
+    return [{collectionGroup: collectionId}, ...constraints];
+}
+
+export function startQueryListener<
+    TRaw = unknown,
+    TFinal = TRaw[]
+> (
+    entityApi: EntityApi,
+    leasee: string,
+    validPath: string[] | null,
+    validConstraints: QueryConstraintSpec[] | null,
+    hashValue: string,
+    options?: QueryListenerOptions<TRaw, TFinal>,
+    isCollectionGroup = false
+) {
+    if (!validPath || !validConstraints) {
+        return;
+    }
+
+    const lease = entityApi.getClient().leases.get(hashValue);
+    const leaseOptions = options?.leaseOptions;
+    if (lease?.unsubscribe) {
+        claimLease(entityApi.getClient(), hashValue, leasee, leaseOptions);
+    } else {
+
+        const transform = options?.transform;
+
+        const [collectionName, ...collectionKeys] = validPath;
+        const db = getFirestore(getFirebaseApp(entityApi, options));
+        const collectionRef = isCollectionGroup ?
+            collectionGroup(db, collectionName) :
+            collection(db, collectionName, ...collectionKeys);
+        const q = query(collectionRef, ...validConstraints.map(toQueryConstraint));
+
+        const includeMetadataChanges = Boolean(options?.includeMetadataChanges);
+
+        const unsubscribe = onSnapshot(q, {includeMetadataChanges}, snapshot => {
+            const data = snapshot.docs.map(doc => doc.data() as TRaw);
+            try {
+                const finalData = transform ?
+                    transform({
+                        api: entityApi,
+                        leasee,
+                        path: validPath,
+                        collectionGroup: isCollectionGroup,
+                        constraints: validConstraints,
+                        snapshot,
+                        data
+                    }) :
+                    data;
+
+                setSnapshotEntity(entityApi, hashValue, snapshot.metadata, finalData);
+            } catch (transformError) {
+                setSnapshotEntity(entityApi, hashValue, snapshot.metadata, transformError);
+            }
+        }, error => {
+
+            setEntity(entityApi, hashValue, error);
+            notifyListenerError(entityApi.getClient(), hashValue, error);
+
+            const onError = options?.onError;
+            if (onError) {
+                onError({
+                    api: entityApi,
+                    leasee,
+                    path: validPath,
+                    collectionGroup: isCollectionGroup,
+                    constraints: validConstraints,
+                    error
+                });
+            }
+        })
+
+        createLeasedEntity(entityApi.getClient(), unsubscribe, hashValue, leasee, leaseOptions);
+    }
+}
+
+/**
+ * Options passed to the [useAggregate](../functions/useAggregate.html) hook
+ * and the [watchAggregate](../functions/watchAggregate.html) function.
+ */
+export interface AggregateOptions extends AppOptions {
+
+    /**
+     * The number of milliseconds between automatic refreshes of the aggregation
+     * results. If this value is not defined, the aggregation query runs only once, 
+     * unless it is refreshed explicitly.
+     */
+    refetchInterval?: number;
+
+    /**
+     * An event handler that is called if the aggregation query fails.
+     * @param event The event that fired when the error occurred
+     */
+    onError?: (event: AggregateErrorEvent) => void;
+
+    /**
+     * Options used to create a Lease for the aggregation results.
+     * Aggregation queries are expensive, so you may want a longer `abandonTime`
+     * than the default.
+     */
+    leaseOptions?: LeaseOptions;
+}
+
+export function aggregateKey(path: PathElement[], spec: AggregateSpec, constraints: QueryConstraintSpec[]) {
+    return [{aggregate: path, fields: spec}, ...constraints];
+}
+
+export function startAggregate<TSpec extends AggregateSpec>(
+    entityApi: EntityApi,
+    leasee: string,
+    validPath: string[] | null,
+    spec: TSpec,
+    validConstraints: QueryConstraintSpec[] | null,
+    hashValue: string,
+    options?: AggregateOptions
+) {
+    if (!validPath || !validConstraints) {
+        return;
+    }
+
+    const onError = options?.onError;
+    const [collectionName, ...collectionKeys] = validPath;
+    const db = getFirestore(getFirebaseApp(entityApi, options));
+    const collectionRef = collection(db, collectionName, ...collectionKeys);
+    const q = query(collectionRef, ...validConstraints.map(toQueryConstraint));
+
+    // `count` is the only aggregation available in firebase 9, so every alias
+    // receives the same result.
+    const runAggregate = () => getCountFromServer(q).then(snapshot => {
+        const count = snapshot.data().count;
+        const result: Record<string, number> = {};
+        Object.keys(spec).forEach(alias => {
+            result[alias] = count;
+        })
+        return result as AggregateData<TSpec>;
+    })
+
+    startLeasedFetch(entityApi, leasee, hashValue, runAggregate, {
+        refetchInterval: options?.refetchInterval,
+        leaseOptions: options?.leaseOptions,
+        onError: onError && (error => onError({
+            api: entityApi,
+            leasee,
+            path: validPath,
+            collectionGroup: false,
+            constraints: validConstraints,
+            spec,
+            error
+        }))
+    });
+}
+
+/**
+ * Options passed to the [useRtdbListener](../functions/useRtdbListener.html) hook
+ * and the [watchRtdbEntity](../functions/watchRtdbEntity.html) function.
+ * 
+ * These options mirror the [DocListenerOptions](./DocListenerOptions.html) used
+ * for Firestore documents.
+ * 
+ * @typeParam TServer The type of data stored at the Realtime Database location.
+ * @typeParam TFinal The type of data returned by the `transform` handler, if any.
+ *      If no `transform` handler is defined, this template parameter defaults to 
+ *      the `TServer` type.
+ */
+export interface RtdbListenerOptions<TServer, TFinal=TServer> extends AppOptions {
+
+    /**
+     * An event handler that transforms the raw data received from the Realtime
+     * Database into a different data shape for use in your application. This event
+     * handler fires when the data is first received and again whenever it changes.
+     * 
+     * See the [transform](./DocListenerOptions.html#transform) handler in 
+     * `DocListenerOptions` for an example.
+     * 
+     * @param event The event that fired
+     * @returns The transformed data for storage within the cache, or `undefined` if
+     *   the transformed structure relies on other entities that are pending.
+     * @throws The transform function may throw an Error if it is impossible to create
+     *  the transformed structure. That error will be stored in the cache.
+     */
+    transform?: (event: RtdbChangeEvent<TServer>) => TFinal | undefined;
+
+    /**
+     * An event handler that is called when the data at the location is removed.
+     * 
+     * This handler is not called if the location held no data when the listener
+     * started. In that case, the entity has the "notFound" status.
+     * @param event The event that fired when the data was removed
+     */
+    onRemoved?: (event: RtdbRemovedEvent<TServer>) => void;
+
+    /**
+     * An event handler that is called if an error occurs while listening
+     * to the location, e.g. if the user does not have permission to read it.
+     * @param event The event that fired when the error occurred
+     */
+    onError?: (event: RtdbErrorEvent) => void;
+
+    /**
+     * Options used to create a Lease for the data.
+     * A lease is created the first time that a listener is started for a given path.
+     * Subsequent calls with the same path will detect that a listener is running,
+     * and the `leaseOptions` will be ignored.
+     */
+    leaseOptions?: LeaseOptions;
+}
+
+export function rtdbKey(path: PathElement[]) {
+    return [{rtdb: path}];
+}
+
+export function startRtdbListener<
+    TRaw = unknown,
+    TFinal = TRaw
+> (
+    entityApi: EntityApi,
+    leasee: string,
+    validPath: string[] | null,
+    hashValue: string,
+    options?: RtdbListenerOptions<TRaw, TFinal>
+) {
+    if (!validPath) {
+        return;
+    }
+
+    const client = entityApi.getClient();
+    const lease = client.leases.get(hashValue);
+    const leaseOptions = options?.leaseOptions;
+    if (lease?.unsubscribe) {
+        claimLease(client, hashValue, leasee, leaseOptions);
+    } else {
+        const transform = options?.transform;
+        const onRemoved = options?.onRemoved;
+
+        const db = getDatabase(getFirebaseApp(entityApi, options));
+        const dbRef = ref(db, validPath.join('/'));
+
+        // The most recent data that existed at the location. See `startDocListener`.
+        let lastData: TRaw | undefined = undefined;
+
+        const unsubscribe = onValue(dbRef, snapshot => {
+
+            if (snapshot.exists()) {
+                const data = snapshot.val() as TRaw;
+                lastData = data;
+
+                try {
+                    const finalData = transform ?
+                        transform({
+                            api: entityApi,
+                            leasee,
+                            data,
+                            path: validPath,
+                            snapshot
+                        }) :
+                        data;
+
+                    setEntity(entityApi, hashValue, finalData);
+                } catch (transformError) {
+                    setEntity(entityApi, hashValue, transformError);
+                }
+
+            } else if (lastData === undefined) {
+                setEntity(entityApi, hashValue, NOT_FOUND);
+
+            } else {
+                const data = lastData;
+                lastData = undefined;
+
+                setEntity(entityApi, hashValue, null);
+                if (onRemoved) {
+                    onRemoved({
+                        api: entityApi,
+                        leasee,
+                        data,
+                        path: validPath,
+                        snapshot
+                    });
+                }
+            }
+        }, error => {
+
+            setEntity(entityApi, hashValue, error);
+            notifyListenerError(entityApi.getClient(), hashValue, error);
+
+            const onError = options?.onError;
+            if (onError) {
+                onError({
+                    api: entityApi,
+                    leasee,
+                    path: validPath,
+                    error
+                });
+            }
+        })
+
+        createLeasedEntity(client, unsubscribe, hashValue, leasee, leaseOptions);
+    }
+}
+
+/**
+ * Options passed to the [useStorageUrl](../functions/useStorageUrl.html) and
+ * [useStorageMetadata](../functions/useStorageMetadata.html) hooks, and the
+ * [fetchStorageUrl](../functions/fetchStorageUrl.html) and 
+ * [fetchStorageMetadata](../functions/fetchStorageMetadata.html) functions.
+ */
+export interface StorageOptions extends AppOptions {
+
+    /**
+     * An event handler that is called if an error occurs while accessing
+     * the Storage object. This handler is not called if the object does not
+     * exist. In that case, the entity has the "notFound" status.
+     * @param event The event that fired when the error occurred
+     */
+    onError?: (event: StorageErrorEvent) => void;
+
+    /**
+     * Options used to create a Lease for the entity.
+     * A lease is created the first time that the entity is requested for a given path.
+     * Subsequent requests with the same path will make a claim on the existing entity,
+     * and the `leaseOptions` will be ignored.
+     */
+    leaseOptions?: LeaseOptions;
+}
+
+/**
+ * Options passed to the [uploadFile](../functions/uploadFile.html) function.
+ */
+export interface UploadOptions extends AppOptions {
+
+    /** Metadata for the object being uploaded */
+    metadata?: UploadMetadata;
+
+    /**
+     * An event handler that is called if the upload fails.
+     * @param event The event that fired when the error occurred
+     */
+    onError?: (event: StorageErrorEvent) => void;
+
+    /**
+     * Options used to create a Lease for the upload progress entity, 
+     * if a Lease does not exist already.
+     */
+    leaseOptions?: LeaseOptions;
+}
+
+export function storageUrlKey(path: PathElement[]) {
+    return [{storageUrl: path}];
+}
+
+export function storageMetadataKey(path: PathElement[]) {
+    return [{storageMetadata: path}];
+}
+
+export function startStorageFetch(
+    entityApi: EntityApi,
+    leasee: string,
+    validPath: string[] | null,
+    hashValue: string,
+    kind: 'url' | 'metadata',
+    options?: StorageOptions
+) {
+    if (!validPath) {
+        return;
+    }
+
+    const onError = options?.onError;
+    const storage = getStorage(getFirebaseApp(entityApi, options));
+    const objectRef = storageRef(storage, validPath.join('/'));
+
+    const fetchObject = () => {
+        const promise: Promise<string | StorageMetadata> = kind === 'url' ?
+            getDownloadURL(objectRef) :
+            getMetadata(objectRef).then(({ref, ...metadata}) => metadata);
+
+        return promise.catch(error => {
+            if ((error as FirebaseError).code === 'storage/object-not-found') {
+                return NOT_FOUND;
+            }
+            throw error;
+        });
+    }
+
+    startLeasedFetch(entityApi, leasee, hashValue, fetchObject, {
+        leaseOptions: options?.leaseOptions,
+        onError: onError && (error => onError({
+            api: entityApi,
+            leasee,
+            path: validPath,
+            error
+        }))
+    });
+}
+
+export function startUpload(
+    entityApi: EntityApi,
+    leasee: string,
+    hashValue: string,
+    file: Blob | Uint8Array | ArrayBuffer,
+    path: string[],
+    options?: UploadOptions
+) {
+    const client = entityApi.getClient();
+    const storage = getStorage(getFirebaseApp(entityApi, options));
+    const task = uploadBytesResumable(storageRef(storage, path.join('/')), file, options?.metadata);
+
+    const toProgress = (snapshot: UploadTaskSnapshot): UploadProgress => ({
+        state: snapshot.state,
+        bytesTransferred: snapshot.bytesTransferred,
+        totalBytes: snapshot.totalBytes
+    });
+
+    setEntity(entityApi, hashValue, toProgress(task.snapshot));
+    const lease = claimLease(client, hashValue, leasee, options?.leaseOptions);
+
+    // Stop tracking a previous upload stored under the same key.
+    if (lease.unsubscribe) {
+        lease.unsubscribe();
+    }
+
+    const setProgress = (value: unknown) => {
+        if (isLeaseActive(entityApi, hashValue, lease)) {
+            setEntity(entityApi, hashValue, value);
+        }
+    }
+
+    lease.unsubscribe = task.on('state_changed', 
+        snapshot => setProgress(toProgress(snapshot)), 
+        error => {
+            setProgress(error);
+            if (isLeaseActive(entityApi, hashValue, lease)) {
+                notifyListenerError(client, hashValue, error);
+            }
+            const onError = options?.onError;
+            if (onError) {
+                onError({
+                    api: entityApi,
+                    leasee,
+                    path,
+                    error
+                });
+            }
+        }, 
+        () => {
+            getDownloadURL(task.snapshot.ref).then(
+                downloadUrl => setProgress({...toProgress(task.snapshot), downloadUrl}),
+                error => setProgress(error)
+            );
+        }
+    );
+
+    const onListenerStarted = client.options.onListenerStarted;
+    if (onListenerStarted) {
+        onListenerStarted(leaseEvent(client, lease, leasee));
+    }
+
+    return task;
+}
+
+/**
+ * Options passed to the [useCallable](../functions/useCallable.html) hook
+ * and the [callFunction](../functions/callFunction.html) function.
+ */
+export interface CallableOptions extends AppOptions {
+
+    /** 
+     * The region or custom domain of the callable function. If not defined,
+     * the default region of Cloud Functions is used.
+     */
+    region?: string;
+
+    /** Options passed to `httpsCallable`, such as the `timeout` */
+    callableOptions?: HttpsCallableOptions;
+
+    /**
+     * An event handler that is called if the callable function fails.
+     * @param event The event that fired when the error occurred
+     */
+    onError?: (event: CallableErrorEvent) => void;
+
+    /**
+     * Options used to create a Lease for the result.
+     * A lease is created the first time that the function is called with a given
+     * combination of name and arguments. Subsequent calls with the same name and 
+     * arguments make a claim on the existing entity instead of calling the function 
+     * again, and the `leaseOptions` will be ignored.
+     */
+    leaseOptions?: LeaseOptions;
+}
+
+export function callableKey(name: string, args: unknown, region?: string) {
+    return [region ? {callable: name, region} : {callable: name}, args];
+}
+
+export function startCallable(
+    entityApi: EntityApi,
+    leasee: string,
+    name: string,
+    args: unknown,
+    hashValue: string | null,
+    options?: CallableOptions
+) {
+    if (!hashValue) {
+        return;
+    }
+
+    const onError = options?.onError;
+
+    // The callable is created only when the function is actually called, since 
+    // this function merely claims the entity if a lease exists already. Errors
+    // from creating the callable are stored in the cache like other errors.
+    const callFunction = () => new Promise<unknown>(resolve => {
+        const functions = getFunctions(getFirebaseApp(entityApi, options), options?.region);
+        const callable = httpsCallable(functions, name, options?.callableOptions);
+        resolve(callable(args).then(result => result.data));
+    })
+
+    startLeasedFetch(entityApi, leasee, hashValue, callFunction, {
+        leaseOptions: options?.leaseOptions,
+        onError: onError && (error => onError({
+            api: entityApi,
+            leasee,
+            name,
+            args,
+            error
+        }))
+    });
+}
+
+/**
+ * Options passed to [setDocument](../functions/setDocument.html),
+ * [updateDocument](../functions/updateDocument.html) and
+ * [deleteDocument](../functions/deleteDocument.html).
+ */
+export interface WriteOptions extends AppOptions {
+
+    /**
+     * If `true` (the default), the cached entity for the document is updated 
+     * immediately, before the write is sent to Firestore. If the write is rejected,
+     * the cached entity is rolled back to its previous value.
+     * 
+     * The optimistic update is applied to the data stored in the cache. If the
+     * entity was produced by a `transform` handler, its shape might not match the 
+     * data written to Firestore. In that case, set this option to `false`.
+     * 
+     * Fields whose value is a `FieldValue` sentinel, such as `serverTimestamp()`,
+     * are not updated optimistically, except for `deleteField()` which removes the
+     * field from the cached entity.
+     */
+    optimistic?: boolean;
+}
+
+/**
+ * Options passed to [setDocument](../functions/setDocument.html).
+ */
+export interface SetDocumentOptions<T = DocumentData> extends WriteOptions {
+
+    /**
+     * If `true`, the data is merged into the existing document instead of
+     * overwriting it.
+     */
+    merge?: boolean;
+
+    /**
+     * A Firestore data converter whose `toFirestore` method converts the data
+     * before it is written.
+     * 
+     * When a converter is given without the `merge` option, the optimistic 
+     * update stores the data in the cache exactly as it was passed in. This 
+     * matches the value produced by the converter's `fromFirestore` method, 
+     * provided that the document is read with the same converter.
+     */
+    converter?: FirestoreDataConverter<T>;
+}
+
+/**
+ * Validate the path to a document that is about to be written.
+ * @throws Error if the path contains an undefined value.
+ */
+export function validateWritePath(path: string[]) {
+    const validPath = validatePath(path);
+    if (!validPath) {
+        throw new Error("Invalid path");
+    }
+    return validPath;
+}
+
+/**
+ * Perform a write to Firestore, optionally applying an optimistic update to the
+ * cached entity first.
+ * 
+ * The optimistic update is rolled back if the write is rejected, or if `write` 
+ * throws synchronously, e.g. because the data contains an `undefined` field.
+ * 
+ * @param computeNext A function that computes the optimistic value of the entity 
+ *      from its current value, or `undefined` if no optimistic update is required.
+ */
+export function writeDocument(
+    entityApi: EntityApi,
+    hashValue: string,
+    write: () => Promise<void>,
+    computeNext?: (current: unknown) => unknown
+): Promise<WriteResultTuple> {
+
+    const rollback = computeNext ? applyStagedWrites(entityApi, [{hashValue, computeNext}]) : undefined;
+
+    return new Promise<void>(resolve => resolve(write())).then(
+        () => [undefined, undefined, 'success'],
+        error => {
+            if (rollback) {
+                rollback();
+            }
+            return [undefined, asError(error, "Failed to write document"), 'error'];
+        }
+    )
+}
+
+/**
+ * A change to a cached entity that is applied optimistically before a write is
+ * committed.
+ */
+export interface StagedWrite {
+    hashValue: string;
+    computeNext: (current: unknown) => unknown;
+}
+
+/**
+ * Apply a set of staged writes to the cache in a single step.
+ * Writes for entities that are not in the cache are ignored.
+ * 
+ * @returns A function that rolls back the writes, e.g. if the commit fails. 
+ *      An entity is not rolled back if it has changed since the writes were applied.
+ */
+export function applyStagedWrites(entityApi: EntityApi, writes: StagedWrite[]) {
+
+    // The new values are computed here rather than inside the updater passed
+    // to `mutate`, because React may run that updater later, or more than once.
+    const cache = entityApi.getClient().cache;
+    const previousValues = new Map<string, unknown>();
+    const nextValues = new Map<string, unknown>();
+    writes.forEach(({hashValue, computeNext}) => {
+        if (cache.hasOwnProperty(hashValue)) {
+            if (!previousValues.has(hashValue)) {
+                previousValues.set(hashValue, cache[hashValue]);
+            }
+            const current = nextValues.has(hashValue) ? nextValues.get(hashValue) : cache[hashValue];
+            nextValues.set(hashValue, computeNext(current));
+        }
+    })
+
+    if (nextValues.size === 0) {
+        return () => {};
+    }
+
+    entityApi.mutate((draftCache: Cache) => {
+        nextValues.forEach((next, hashValue) => {
+            draftCache[hashValue] = next;
+        })
+    })
+
+    return () => entityApi.mutate((draftCache: Cache) => {
+        nextValues.forEach((next, hashValue) => {
+            if (draftCache.hasOwnProperty(hashValue) && baseValue(draftCache[hashValue]) === next) {
+                draftCache[hashValue] = previousValues.get(hashValue);
+            }
+        })
+    })
+}
+
+function baseValue(value: unknown) {
+    return isDraft(value) ? original(value) : value;
+}
+
+/**
+ * Compute the optimistic value of an entity after `setDoc`.
+ */
+export function setFields(current: unknown, data: object, merge: boolean, converter?: FirestoreDataConverter<unknown>) {
+    if (converter && !merge) {
+        return data;
+    }
+    const base = (merge && isPlainObject(current)) ? current : {};
+    return produce(base, draft => mergeFields(draft, data));
+}
+
+/**
+ * Compute the optimistic value of an entity after `updateDoc`.
+ * The keys of `changes` may be dot-separated field paths.
+ */
+export function updateFields(current: unknown, changes: object) {
+    if (!isPlainObject(current)) {
+        return current;
+    }
+    return produce(current, draft => {
+        Object.entries(changes).forEach(([fieldPath, value]) => {
+            const segments = fieldPath.split('.');
+            const lastSegment = segments.pop() as string;
+            let target = draft as Record<string, unknown>;
+            segments.forEach(segment => {
+                if (!isPlainObject(target[segment])) {
+                    target[segment] = {};
+                }
+                target = target[segment] as Record<string, unknown>;
+            })
+            setField(target, lastSegment, value);
+        })
+    })
+}
+
+function mergeFields(target: Record<string, unknown>, data: object) {
+    Object.entries(data).forEach(([key, value]) => {
+        if (isPlainObject(value)) {
+            if (!isPlainObject(target[key])) {
+                target[key] = {};
+            }
+            mergeFields(target[key] as Record<string, unknown>, value);
+        } else {
+            setField(target, key, value);
+        }
+    })
+}
+
+function setField(target: Record<string, unknown>, key: string, value: unknown) {
+    if (value instanceof FieldValue) {
+        if (value.isEqual(deleteField())) {
+            delete target[key];
+        }
+        // Other sentinels are resolved by the server.
+    } else {
+        target[key] = value;
+    }
+}
+
+/**
+ * Put a value derived from a snapshot into the cache, together with the metadata
+ * from the snapshot, in a single update. The `updatedAt` time of the metadata is
+ * set to the current time.
+ */
+export function setSnapshotEntity(
+    entityApi: EntityApi,
+    hashValue: string,
+    metadata: Pick<SnapshotMetadata, 'fromCache' | 'hasPendingWrites'>,
+    value: unknown
+) {
+    entityApi.getClient().setCache(
+        oldCache => produce(oldCache, draftCache => {
+            draftCache[hashValue] = value;
+
+            const record = (draftCache[ENTITY_METADATA] || {}) as Record<string, EntityMetadata>;
+            record[hashValue] = {
+                fromCache: metadata.fromCache,
+                hasPendingWrites: metadata.hasPendingWrites,
+                updatedAt: Date.now()
+            };
+            draftCache[ENTITY_METADATA] = record;
+        })
+    )
+}
+
+export function lookupEntityMetadata(cache: Cache, key: string | null) {
+    const record = cache[ENTITY_METADATA] as Record<string, EntityMetadata> | undefined;
+    return (key!==null && record) ? record[key] : undefined;
+}
+
+/**
+ * Start a listener that stores the `IdTokenResult` of the authenticated user
+ * in the cache under the `AUTH_CLAIMS` key, unless such a listener is running already.
+ */
+export function startIdTokenListener(entityApi: EntityApi, leaseOptions: LeaseOptions) {
+    const client = entityApi.getClient();
+    const lease = client.leases.get(AUTH_CLAIMS);
+    if (lease?.unsubscribe) {
+        return;
+    }
+
+    // Incremented for each token change so that stale results are discarded.
+    let tokenCount = 0;
+
+    const auth = getAuth(client.firebaseApp);
+    const unsubscribe = onIdTokenChanged(auth, user => {
+        const tokenId = ++tokenCount;
+        if (!user) {
+            setEntity(entityApi, AUTH_CLAIMS, null);
+            return;
+        }
+        user.getIdTokenResult().then(
+            result => result,
+            error => asError(error, "Failed to get the ID token")
+        ).then(value => {
+            if (tokenId === tokenCount && entityApi.getClient().leases.has(AUTH_CLAIMS)) {
+                setEntity(entityApi, AUTH_CLAIMS, value);
+            }
+        })
+    }, error => {
+        setEntity(entityApi, AUTH_CLAIMS, error);
+        notifyListenerError(entityApi.getClient(), AUTH_CLAIMS, error);
+    })
+
+    createLeasedEntity(client, unsubscribe, AUTH_CLAIMS, CURRENT_USER, leaseOptions);
+}
+
+/** The kinds of auth action whose status is stored in the cache */
+export const AUTH_ACTIONS: AuthAction[] = ['signIn', 'signOut', 'link', 'reauthenticate'];
+
+export function authActionKey(action: AuthAction) {
+    return [{authAction: action}];
+}
+
+/**
+ * Perform an auth action, storing its status in the cache under the action's key.
+ * 
+ * If the action fails because an account exists with a different credential,
+ * an {@link IncompatibleIdentityProviderError} is stored instead of the original error.
+ */
+export function runAuthAction<T>(
+    entityApi: EntityApi,
+    action: AuthAction,
+    perform: () => Promise<T>
+): Promise<SuccessTuple<T> | ErrorTuple> {
+    const hashValue = hashEntityKey(authActionKey(action));
+
+    // Incremented by each invocation so that stale results are discarded.
+    const counts = authActionCounts.get(entityApi) || {};
+    authActionCounts.set(entityApi, counts);
+    const actionId = (counts[action] || 0) + 1;
+    counts[action] = actionId;
+    const isLatest = () => counts[action] === actionId;
+
+    setEntity(entityApi, hashValue, undefined);
+
+    return new Promise<T>(resolve => resolve(perform())).then(
+        (value): SuccessTuple<T> => {
+            if (isLatest()) {
+                setEntity(entityApi, hashValue, {value});
+            }
+            return [value, undefined, 'success'];
+        },
+        (reason): ErrorTuple => {
+            const error = toAuthActionError(reason);
+            if (isLatest()) {
+                setEntity(entityApi, hashValue, error);
+            }
+            return [undefined, error, 'error'];
+        }
+    )
+}
+
+const authActionCounts = new WeakMap<EntityApi, Partial<Record<AuthAction, number>>>();
+
+function toAuthActionError(reason: unknown) {
+    const error = reason as FirebaseError;
+    if (error?.code === 'auth/account-exists-with-different-credential') {
+        const email = error.customData?.email as string | undefined;
+        const credential = OAuthProvider.credentialFromError(error) || undefined;
+        return new IncompatibleIdentityProviderError(error.message, email, credential);
+    }
+    return asError(reason, "Auth action failed");
+}
+
+export function lookupAuthActionTuple<T>(cache: Cache, action: AuthAction): AuthActionTuple<T> {
+    const hashValue = hashEntityKey(authActionKey(action));
+    if (!(hashValue in cache)) {
+        return [undefined, undefined, 'idle'];
+    }
+    const entity = cache[hashValue];
+
+    // Successful results are wrapped so that an `undefined` value is not mistaken 
+    // for a pending action.
+    return (
+        entity===undefined      ? [undefined, undefined, 'pending'] :
+        entity instanceof Error ? [undefined, entity, 'error'] :
+                                  [(entity as {value: T}).value, undefined, 'success']
+    )
+}
+
+export function lookupAuthTuple<UserType>(cache: Cache, key: string = CURRENT_USER): AuthTuple<UserType> {
+    const entity = cache[key];
+    
+    return (
+        entity===undefined      ? [undefined, undefined, 'pending'] :
+        entity===null           ? [null, undefined, 'signedOut'] :
+        entity instanceof Error ? [undefined, entity as Error, 'error'] :
+                                  [entity as UserType, undefined, 'signedIn']
+    )
+}
+
+/**
+ * Start document listeners for the documents referenced by the given fields of
+ * an entity, and release the claims on documents that it no longer references.
+ * 
+ * The claims are held by a leasee derived from the given leasee and the key of
+ * the entity, so that claims which the leasee holds directly are not released.
+ * 
+ * @param hashValue The hash of the key for the entity
+ * @param data The data for the entity
+ */
+export function syncReferenceListeners(
+    entityApi: EntityApi,
+    leasee: string,
+    hashValue: string,
+    data: unknown,
+    resolve: string[]
+) {
+    const client = entityApi.getClient();
+    const refLeasee = referenceLeasee(leasee, hashValue);
+    const hashValues = startReferenceListeners(entityApi, refLeasee, data, resolve);
+
+    const leases = client.leaseeLeases.get(refLeasee);
+    if (leases) {
+        Array.from(leases).forEach(lease => {
+            if (!hashValues.includes(lease.entityKey)) {
+                releaseLeaseClaim(client, lease, refLeasee);
+            }
+        })
+    }
+}
+
+/**
+ * Get the name of the leasee that claims the documents referenced by an entity.
+ */
+export function referenceLeasee(leasee: string, hashValue: string) {
+    return derivedLeasee(leasee, 'refs:' + hashValue);
+}
+
+/**
+ * Start document listeners for the documents referenced by the given fields
+ * of some entity data.
+ * 
+ * @returns The hash values for the referenced documents
+ */
+function startReferenceListeners(
+    entityApi: EntityApi,
+    leasee: string,
+    data: unknown,
+    resolve: string[]
+) {
+    const hashValues: string[] = [];
+    forEachReference(data, resolve, docRef => {
+        const path = docRef.path.split('/');
+        const appOptions = referenceAppOptions(entityApi.getClient(), docRef);
+        const hashValue = hashEntityKey(appKey(path, appOptions));
+        startDocListener(entityApi, leasee, path, hashValue, appOptions);
+        hashValues.push(hashValue);
+    })
+    return hashValues;
+}
+
+/**
+ * Create a joined view of an EntityTuple in which each resolved field holds
+ * the data of the referenced document instead of the `DocumentReference`.
+ */
+export function joinReferences<T>(client: EntityClient, tuple: EntityTuple<T>, resolve: string[]): EntityTuple<T> {
+    const [data, , status] = tuple;
+    if (status !== 'success' || !data || typeof data !== 'object') {
+        return tuple;
+    }
+
+    const childTuples: EntityTuple<unknown>[] = [];
+    const lookupReference = (docRef: DocumentReference) => {
+        const childKey = appKey(docRef.path.split('/'), referenceAppOptions(client, docRef));
+        const childTuple = lookupEntityTuple<unknown>(client.cache, hashEntityKey(childKey));
+        childTuples.push(childTuple);
+        return childTuple[0];
+    }
+
+    const joined = {...data} as Record<string, unknown>;
+    resolve.forEach(field => {
+        const value = joined[field];
+        if (value instanceof DocumentReference) {
+            joined[field] = lookupReference(value);
+        } else if (Array.isArray(value)) {
+            joined[field] = value.map(item => item instanceof DocumentReference ? lookupReference(item) : item);
+        }
+    })
+
+    // A referenced document whose listener has not started yet counts as pending.
+    if (childTuples.some(childTuple => childTuple[2] === 'idle')) {
+        return [undefined, undefined, 'pending'];
+    }
+    const [, error, combinedStatus] = combineEntityTuples(childTuples);
+    return (
+        combinedStatus === 'error'   ? [undefined, error as Error, 'error'] :
+        combinedStatus === 'pending' ? [undefined, undefined, 'pending'] :
+                                       [joined as T, undefined, 'success']
+    )
+}
+
+/**
+ * Select the app that owns the Firestore instance of a DocumentReference.
+ */
+function referenceAppOptions(client: EntityClient, docRef: DocumentReference): AppOptions | undefined {
+    const app = client.getAppName(docRef.firestore.app);
+    return app ? {app} : undefined;
+}
+
+function forEachReference(data: unknown, resolve: string[], callback: (docRef: DocumentReference) => void) {
+    if (!data || typeof data !== 'object') {
+        return;
+    }
+    const record = data as Record<string, unknown>;
+    resolve.forEach(field => {
+        const value = record[field];
+        if (value instanceof DocumentReference) {
+            callback(value);
+        } else if (Array.isArray(value)) {
+            value.forEach(item => {
+                if (item instanceof DocumentReference) {
+                    callback(item);
+                }
+            })
+        }
+    })
+}
+
+/**
+ * Combine several EntityTuples into a single EntityTuple whose data is an array
+ * containing the data from each tuple, in the same order as the tuples.
+ * 
+ * Idle tuples are ignored when computing the combined status, which is:
+ * - "error" if any tuple has an error (the first error is reported)
+ * - "pending" if any tuple is pending
+ * - "idle" if every tuple is idle and there is at least one tuple
+ * - "success" otherwise. In this case, the data for idle, removed and missing 
+ *   entities is `null`.
+ */
+export function combineEntityTuples<T>(tuples: EntityTuple<T>[]): EntityTuple<(T | null)[]> {
+    const activeTuples = tuples.filter(tuple => tuple[2] !== 'idle');
+    if (tuples.length > 0 && activeTuples.length === 0) {
+        return [undefined, undefined, 'idle'];
+    }
+    const errorTuple = activeTuples.find(tuple => tuple[2] === 'error');
+    if (errorTuple) {
+        return [undefined, errorTuple[1] as Error, 'error'];
+    }
+    if (activeTuples.some(tuple => tuple[2] === 'pending')) {
+        return [undefined, undefined, 'pending'];
+    }
+    return [tuples.map(tuple => tuple[2] === 'idle' ? null : tuple[0] as T | null), undefined, 'success'];
 }
 
 export function lookupEntityTuple<T>(cache: Cache, key: string | null) : EntityTuple<T> {
@@ -247,6 +1882,7 @@ export function lookupEntityTuple<T>(cache: Cache, key: string | null) : EntityT
         (value===undefined && [undefined, undefined, "pending"]) ||
         (value instanceof Error && [undefined, value as Error, "error"]) ||
         (value===null && [null, undefined, "removed"]) ||
+        (value===NOT_FOUND && [null, undefined, "notFound"]) ||
         [value as T, undefined, "success"]
     )
 }
@@ -1,9 +1,11 @@
 
 
 import { FirebaseApp } from 'firebase/app';
-import React, { useState } from 'react';
+import React, { useEffect, useRef, useState } from 'react';
 import { createEntityClient, EntityClient, updateEntityClient } from '../../EntityClient';
-import { Cache, EntityApiOptions } from '../../types';
+import { getSaveDelay, loadPersistedEntities, restorePersistedEntities, selectPersistedEntities } from '../../persistence';
+import { hydrateCache } from '../../ssr';
+import { Cache, DehydratedState, EntityApiOptions, PersistedCache, PersistenceOptions } from '../../types';
 
 
 export const FirebaseContext = React.createContext<EntityClient | null>(null);
@@ -16,6 +18,17 @@ export interface FirebaseProviderProps {
     /** The FirebaseApp used by the React application */
     firebaseApp: FirebaseApp;
 
+    /**
+     * Additional FirebaseApps, indexed by name. For example, an app that 
+     * connects to a second Firebase project.
+     * 
+     * Listeners and other functions select one of these apps by passing its
+     * name in the `app` option. Entities from a named app are stored under
+     * keys that include the app name, so that identical paths in different 
+     * apps do not collide.
+     */
+    apps?: Record<string, FirebaseApp>;
+
     /** The child components nested with the {@link FirebaseProvider} */
     children?: React.ReactNode;
 
@@ -29,6 +42,37 @@ export interface FirebaseProviderProps {
      * Contains default settings used when creating new [Leases](../classes/Lease.html)
      */
     options?: EntityApiOptions;
+
+    /**
+     * Options for saving selected entities to persistent storage, such as 
+     * `localStorage` or IndexedDB, and restoring them when the application starts.
+     * 
+     * Restored entities have the "success" status immediately, so components can
+     * render the data from the previous session while their listeners connect.
+     * Until fresh data arrives, the [EntityMetadata](../interfaces/EntityMetadata.html)
+     * for a restored entity has `stale: true`.
+     * 
+     * #### Example
+     * ```typescript
+     *  const persistence = {
+     *      adapter: createLocalStorageAdapter(),
+     *      include: (entityKey: string) => entityKey.startsWith('["cities"')
+     *  }
+     * 
+     *  <FirebaseProvider firebaseApp={firebaseApp} persistence={persistence}>
+     * ```
+     */
+    persistence?: PersistenceOptions;
+
+    /**
+     * Entities read on the server by [prefetchEntities](./prefetchEntities.html)
+     * or [dehydrate](./dehydrate.html). They are added to the initial state, so 
+     * that hooks start with the "success" status and attach listeners afterwards.
+     * 
+     * This prop is read only when the FirebaseProvider mounts. Use the 
+     * [hydrate](./hydrate.html) function to add entities later.
+     */
+    dehydratedState?: DehydratedState;
 }
 
 /**
@@ -93,10 +137,16 @@ export interface FirebaseProviderProps {
  * @param props
  */
 export function FirebaseProvider(props: FirebaseProviderProps) {
-    const {firebaseApp, children, initialState, options} = props;
+    const {firebaseApp, apps, children, initialState, options, persistence, dehydratedState} = props;
+
+    // Entities from the server take precedence over those from persistent storage.
+    const [[initialCache, pendingLoad]] = useState(
+        () => loadPersistedEntities(hydrateCache((initialState || {}) as Cache, dehydratedState), persistence)
+    );
+    const [cache, setCache] = useState<Cache>(initialCache)
+    const [client] = useState<EntityClient>(createEntityClient(firebaseApp, cache, setCache, options, apps));
 
-    const [cache, setCache] = useState<Cache>((initialState || {}) as Cache)
-    const [client] = useState<EntityClient>(createEntityClient(firebaseApp, cache, setCache, options));
+    usePersistence(cache, setCache, persistence, pendingLoad);
 
     const clientValue = updateEntityClient(client, cache);
 
@@ -108,6 +158,57 @@ export function FirebaseProvider(props: FirebaseProviderProps) {
 
 }
 
-
-
-
+/**
+ * Restore entities from an asynchronous persistence adapter, and save the 
+ * selected entities whenever the cache changes.
+ */
+function usePersistence(
+    cache: Cache,
+    setCache: React.Dispatch<React.SetStateAction<Cache>>,
+    persistence: PersistenceOptions | undefined,
+    pendingLoad: Promise<PersistedCache | undefined> | undefined
+) {
+    // Nothing is saved until the entities have been restored, so that the
+    // saved entities are not replaced by an empty cache.
+    const [loadState] = useState(() => ({loaded: !pendingLoad}));
+
+    useEffect(() => {
+        if (!persistence || !pendingLoad || loadState.loaded) {
+            return;
+        }
+        pendingLoad.then(
+            persisted => setCache(oldCache => restorePersistedEntities(oldCache, persisted, persistence)),
+            () => undefined
+        ).then(() => {
+            loadState.loaded = true;
+        })
+    }, [persistence, pendingLoad, loadState, setCache])
+
+    // The cache is saved at most once per `saveDelay` milliseconds.
+    const latestCache = useRef(cache);
+    latestCache.current = cache;
+    const saveToken = useRef<ReturnType<typeof setTimeout>>();
+
+    useEffect(() => {
+        if (!persistence || !loadState.loaded || saveToken.current) {
+            return;
+        }
+        saveToken.current = setTimeout(() => {
+            saveToken.current = undefined;
+            const persisted = selectPersistedEntities(latestCache.current, persistence);
+            // Persistence is best-effort. If the entities cannot be saved, e.g. because 
+            // the storage quota is exceeded, the application continues normally.
+            new Promise(resolve => resolve(persistence.adapter.save(persisted))).catch(
+                () => undefined
+            );
+        }, getSaveDelay(persistence));
+    }, [cache, persistence, loadState])
+
+    // Cancel a pending save when the provider unmounts.
+    useEffect(() => () => {
+        if (saveToken.current) {
+            clearTimeout(saveToken.current);
+            saveToken.current = undefined;
+        }
+    }, [])
+}
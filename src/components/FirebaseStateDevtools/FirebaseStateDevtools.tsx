@@ -0,0 +1,211 @@
+import React, { useContext, useEffect, useState } from 'react';
+import { AUTH_CLAIMS, CURRENT_USER, ENTITY_METADATA, lookupAuthTuple, lookupEntityTuple } from '../../common';
+import { EntityClient, evictLease, removeEntity } from '../../EntityClient';
+import { Lease } from '../../Lease';
+import { FirebaseContext } from '../FirebaseContext/FirebaseContext';
+
+/** The maximum number of characters displayed for a cached value */
+const MAX_VALUE_LENGTH = 2000;
+
+/**
+ * The props to be passed to the {@link FirebaseStateDevtools} component
+ */
+export interface FirebaseStateDevtoolsProps {
+
+    /** If `true`, the inspector is expanded when it first renders. */
+    initialOpen?: boolean;
+
+    /**
+     * A function that selects the cache keys to be displayed. By default,
+     * all keys are displayed.
+     * @param entityKey The hash of the key for an entity
+     */
+    filter?: (entityKey: string) => boolean;
+}
+
+/**
+ * A React component that displays the leases and cached entities managed
+ * by the enclosing [FirebaseProvider](./FirebaseProvider.html).
+ *
+ * For each key in the cache, the inspector shows the status of the entity, its
+ * value, and, if the entity is leased, the leasees that hold claims, whether
+ * a listener is running, and the time remaining before an abandoned entity is
+ * evicted. Any entity except the auth user and ID token may be evicted by hand; 
+ * evicting a leased entity also cancels its listener and removes its lease.
+ *
+ * The inspector is intended for use during development only.
+ *
+ * ### Usage
+ * ```typescript
+ *  export function App() {
+ *      return (
+ *          <FirebaseProvider firebaseApp={firebaseApp}>
+ *              <MainPage/>
+ *              {process.env.NODE_ENV === "development" && <FirebaseStateDevtools/>}
+ *          </FirebaseProvider>
+ *      )
+ *  }
+ * ```
+ * @param props
+ */
+export function FirebaseStateDevtools(props: FirebaseStateDevtoolsProps) {
+    const {initialOpen, filter} = props;
+
+    const client = useContext(FirebaseContext);
+    const [open, setOpen] = useState(Boolean(initialOpen));
+    const [now, setNow] = useState(Date.now());
+
+    // Leases are not part of the cache, so re-render periodically to
+    // pick up changes to leases and to update the eviction countdowns.
+    useEffect(() => {
+        if (!open) {
+            return;
+        }
+        const token = setInterval(() => setNow(Date.now()), 1000);
+        return () => clearInterval(token);
+    }, [open])
+
+    if (!client) {
+        throw new Error("FirebaseStateDevtools must be used within a FirebaseProvider");
+    }
+
+    const keys = listKeys(client).filter(key => !filter || filter(key));
+
+    return (
+        <div style={containerStyle}>
+            <button style={buttonStyle} onClick={() => setOpen(!open)}>
+                {open ? 'Hide' : 'Show'} firebase state ({client.leases.size} leases, {keys.length} keys)
+            </button>
+            {open && (
+                <table style={tableStyle}>
+                    <thead>
+                        <tr>
+                            <th style={cellStyle}>Key</th>
+                            <th style={cellStyle}>Status</th>
+                            <th style={cellStyle}>Leasees</th>
+                            <th style={cellStyle}>Listener</th>
+                            <th style={cellStyle}>Eviction</th>
+                            <th style={cellStyle}>Value</th>
+                            <th style={cellStyle}></th>
+                        </tr>
+                    </thead>
+                    <tbody>
+                        {keys.map(key => (
+                            <EntityRow
+                                key={key}
+                                client={client}
+                                entityKey={key}
+                                lease={client.leases.get(key)}
+                                now={now}
+                            />
+                        ))}
+                    </tbody>
+                </table>
+            )}
+        </div>
+    )
+}
+
+interface EntityRowProps {
+    client: EntityClient;
+    entityKey: string;
+    lease: Lease | undefined;
+    now: number;
+}
+
+function EntityRow(props: EntityRowProps) {
+    const {client, entityKey, lease, now} = props;
+
+    const isAuthKey = entityKey === CURRENT_USER || entityKey === AUTH_CLAIMS;
+    const [value, , status] = isAuthKey ?
+        lookupAuthTuple(client.cache, entityKey) :
+        lookupEntityTuple(client.cache, entityKey);
+
+    return (
+        <tr>
+            <td style={cellStyle}><code>{entityKey}</code></td>
+            <td style={cellStyle}>{status}</td>
+            <td style={cellStyle}>{lease ? Array.from(lease.ledger).join(', ') : '(not leased)'}</td>
+            <td style={cellStyle}>{lease ? (lease.unsubscribe ? 'yes' : 'no') : ''}</td>
+            <td style={cellStyle}>{lease ? describeEviction(client, lease, now) : ''}</td>
+            <td style={cellStyle}>
+                <details>
+                    <summary>{typeof value}</summary>
+                    <pre style={preStyle}>{describeValue(value)}</pre>
+                </details>
+            </td>
+            <td style={cellStyle}>
+                {!isAuthKey && (
+                    <button
+                        style={buttonStyle}
+                        onClick={() => lease ? evictLease(client, lease, 'manual') : removeEntity(client, entityKey)}
+                    >
+                        Evict
+                    </button>
+                )}
+            </td>
+        </tr>
+    )
+}
+
+/**
+ * List the keys for all leased entities and all entities in the cache.
+ */
+function listKeys(client: EntityClient) {
+    const keys = new Set<string>(Object.keys(client.cache));
+    client.leases.forEach((_, key) => keys.add(key));
+    keys.delete(ENTITY_METADATA);
+    return Array.from(keys).sort();
+}
+
+function describeEviction(client: EntityClient, lease: Lease, now: number) {
+    if (lease.abandonedAt === undefined) {
+        return 'claimed';
+    }
+    const remaining = lease.abandonedAt + client.getAbandonTime(lease) - now;
+    const seconds = Math.max(0, Math.ceil(remaining/1000));
+    return `in ${seconds}s (token ${String(lease.evictionToken)})`;
+}
+
+function describeValue(value: unknown) {
+    if (value instanceof Error) {
+        return value.stack || value.message;
+    }
+    let text: string;
+    try {
+        text = JSON.stringify(value, null, 2) ?? String(value);
+    } catch (error) {
+        // The value may contain circular references, e.g. a Firebase User.
+        text = String(value);
+    }
+    return text.length > MAX_VALUE_LENGTH ? text.substring(0, MAX_VALUE_LENGTH) + '…' : text;
+}
+
+const containerStyle: React.CSSProperties = {
+    fontFamily: 'monospace',
+    fontSize: 12,
+    margin: 8
+}
+
+const tableStyle: React.CSSProperties = {
+    borderCollapse: 'collapse',
+    marginTop: 8
+}
+
+const cellStyle: React.CSSProperties = {
+    border: '1px solid #ccc',
+    padding: '2px 6px',
+    textAlign: 'left',
+    verticalAlign: 'top'
+}
+
+const preStyle: React.CSSProperties = {
+    margin: 0,
+    maxHeight: 300,
+    overflow: 'auto'
+}
+
+const buttonStyle: React.CSSProperties = {
+    fontFamily: 'inherit',
+    fontSize: 'inherit'
+}
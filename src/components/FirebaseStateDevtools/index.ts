@@ -0,0 +1,2 @@
+export { FirebaseStateDevtools } from "./FirebaseStateDevtools";
+export type { FirebaseStateDevtoolsProps } from "./FirebaseStateDevtools";
\ No newline at end of file
@@ -0,0 +1,17 @@
+import { setDocument } from "./functions";
+import { createTestClient } from "./testUtils";
+import { hashEntityKey } from "./util";
+
+describe('setDocument', () => {
+
+    it('rolls back the optimistic update if the data is rejected synchronously', async () => {
+        const hashValue = hashEntityKey(['cities', 'paris']);
+        const api = createTestClient({[hashValue]: {name: 'Paris'}});
+
+        const result = await setDocument(api, ['cities', 'paris'], {name: 'Paris', population: undefined});
+
+        expect(result[2]).toBe('error');
+        expect(result[1]).toBeInstanceOf(Error);
+        expect(api.getClient().cache[hashValue]).toEqual({name: 'Paris'});
+    })
+})
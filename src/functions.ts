@@ -1,10 +1,13 @@
-import { User } from "firebase/auth";
-import { CURRENT_USER, DocListenerOptions, lookupAuthTuple, lookupEntityTuple, startDocListener, validatePath } from "./common";
+import { AuthProvider, getAuth, IdTokenResult, linkWithPopup, reauthenticateWithPopup, signInWithPopup, signOut, User } from "firebase/auth";
+import { deleteDoc, DocumentData, DocumentReference, setDoc, TransactionOptions, UpdateData, updateDoc, WithFieldValue } from "firebase/firestore";
+import { AppOptions, appKey, AUTH_CLAIMS, runAuthAction, aggregateKey, AggregateOptions, callableKey, CallableOptions, collectionGroupKey, joinReferences, syncReferenceListeners, CURRENT_USER, startAggregate, startCallable, DocFetchOptions, DocListenerOptions, refreshLeasedEntity, rtdbKey, RtdbListenerOptions, startDocFetch, startRtdbListener, startStorageFetch, startUpload, storageMetadataKey, StorageOptions, storageUrlKey, UploadOptions, lookupAuthTuple, documentRef, SetDocumentOptions, setFields, updateFields, validateWritePath, WriteOptions, writeDocument, lookupEntityMetadata, lookupEntityTuple, queryKey, QueryListenerOptions, startDocListener, startQueryListener, validateConstraints, validatePath } from "./common";
 import { EntityApi } from "./EntityApi";
-import { claimLease, EntityClient, removeLeaseeFromLease } from "./EntityClient";
+import { EntityBatch, EntityTransaction, startTransaction } from "./EntityWriter";
+import { claimLease, EntityClient, releaseLeaseClaim } from "./EntityClient";
 import { setEntity } from "./setEntity";
-import { AuthTuple, Cache, EntityKey, EntityTuple, IdleTuple, LeaseOptions, PathElement } from "./types";
-import { hashEntityKey, toHashValue } from "./util";
+import { DEFAULT_PAGE_SIZE, loadMorePages, PaginatedQueryOptions, paginatedQueryKey, startPaginatedQuery } from "./QueryPaginator";
+import { AggregateData, AggregateSpec, AggregateTuple, AuthTuple, Cache, DocFetchTuple, EntityKey, EntityTuple, IdleTuple, LeaseOptions, PaginatedQueryData, PaginatedQueryTuple, PathElement, QueryConstraintSpec, StorageMetadata } from "./types";
+import { asError, hashEntityKey, toHashValue } from "./util";
 
 
 /**
@@ -37,16 +40,609 @@ export function watchEntity<
     options?: DocListenerOptions<TRaw, TFinal>
 ) {
     const validPath = validatePath(path);
-    const hashValue = validPath ? hashEntityKey(path) : "";
+    const hashValue = validPath ? hashEntityKey(appKey(validPath, options)) : "";
 
     startDocListener<TRaw, TFinal>(api, leasee, validPath, hashValue, options);
 
+    const cache = api.getClient().cache;
+    const tuple = lookupEntityTuple<TFinal>(cache, hashValue);
+
+    const resolve = options?.resolve;
+    if (resolve) {
+        if (hashValue) {
+            syncReferenceListeners(api, leasee, hashValue, tuple[0], resolve);
+        }
+        return joinReferences(api.getClient(), tuple, resolve);
+    }
+
+    return tuple;
+}
+
+
+/**
+ * A function providing the same functionality as the `useDocFetch`
+ * hook but designed for use within `useEffect` and event handlers.
+ * The only difference from `useDocFetch` is that you need to pass an {@link EntityApi} 
+ * as the first parameter.
+ * 
+ * See [useDocFetch](./useDocFetch.html) for usage instructions.
+ * 
+ * @param api An EntityApi instance
+ * @param leasee The name of the leasee that is claiming a lease on the fetched entity
+ * @param path The path to the document to be fetched. If any element of the path is `undefined`,
+ *      this function does nothing and returns an `IdleTuple` followed by a no-op function.
+ * @param options options for fetching the document
+ * 
+ * @returns A Tuple describing the fetched entity, followed by a function that fetches
+ *      the document again.
+ */
+export function fetchEntity<
+    TRaw = unknown,
+    TFinal = TRaw
+>(
+    api: EntityApi,
+    leasee: string,
+    path: PathElement[],
+    options?: DocFetchOptions<TRaw, TFinal>
+): DocFetchTuple<TFinal> {
+    const validPath = validatePath(path);
+    const hashValue = validPath ? hashEntityKey(appKey(validPath, options)) : "";
+
+    startDocFetch<TRaw, TFinal>(api, leasee, validPath, hashValue, options);
+
+    const cache = api.getClient().cache;
+
+    return [
+        ...lookupEntityTuple<TFinal>(cache, hashValue),
+        () => refreshLeasedEntity(api, hashValue)
+    ];
+}
+
+/**
+ * Fetch an entity from the server again.
+ * 
+ * This function applies only to entities that are fetched on demand, such as
+ * documents fetched by [useDocFetch](./useDocFetch.html) or 
+ * [fetchEntity](./fetchEntity.html). It does nothing for entities that are kept
+ * up-to-date by a listener.
+ * 
+ * While the entity is being fetched, the cache continues to hold the previous value.
+ * 
+ * @param api An EntityApi instance
+ * @param key The key under which the entity is stored in the cache
+ */
+export function refetchEntity(api: EntityApi, key: string | EntityKey) {
+    refreshLeasedEntity(api, toHashValue(key));
+}
+
+/**
+ * A function providing the same functionality as the `useQueryListener`
+ * hook but designed for use within `useEffect` and event handlers.
+ * The only difference from `useQueryListener` is that you need to pass an {@link EntityApi} 
+ * as the first parameter.
+ * 
+ * See [useQueryListener](./useQueryListener.html) for usage instructions.
+ * 
+ * @param api An EntityApi instance
+ * @param leasee The name of the leasee that is claiming a lease on the query results
+ * @param path The path to the collection to be queried. If any element of the path is `undefined`,
+ *      this function does nothing and returns `[undefined, undefined, "idle"]`.
+ * @param constraints The constraints applied to the query. If any element of a constraint is 
+ *      `undefined`, this function does nothing and returns `[undefined, undefined, "idle"]`.
+ * @param options options for the query listener
+ * 
+ * @returns A Tuple describing the query results being watched.
+ */
+export function watchQuery<
+    TRaw = unknown,
+    TFinal = TRaw[]
+>(
+    api: EntityApi,
+    leasee: string,
+    path: PathElement[],
+    constraints: QueryConstraintSpec[] = [],
+    options?: QueryListenerOptions<TRaw, TFinal>
+) {
+    const validPath = validatePath(path);
+    const validConstraints = validateConstraints(constraints);
+    const hashValue = (validPath && validConstraints) ? 
+        hashEntityKey(appKey(queryKey(validPath, validConstraints), options)) : "";
+
+    startQueryListener<TRaw, TFinal>(api, leasee, validPath, validConstraints, hashValue, options);
+
+    const cache = api.getClient().cache;
+
+    return lookupEntityTuple<TFinal>(cache, hashValue);
+}
+
+/**
+ * A function providing the same functionality as the `useCollectionGroupListener`
+ * hook but designed for use within `useEffect` and event handlers.
+ * The only difference from `useCollectionGroupListener` is that you need to pass an 
+ * {@link EntityApi} as the first parameter.
+ * 
+ * See [useCollectionGroupListener](./useCollectionGroupListener.html) for usage instructions.
+ * 
+ * @param api An EntityApi instance
+ * @param leasee The name of the leasee that is claiming a lease on the query results
+ * @param collectionId The id of the collections to be queried. If this value is `undefined`,
+ *      this function does nothing and returns `[undefined, undefined, "idle"]`.
+ * @param constraints The constraints applied to the query. If any element of a constraint is 
+ *      `undefined`, this function does nothing and returns `[undefined, undefined, "idle"]`.
+ * @param options options for the query listener
+ * 
+ * @returns A Tuple describing the query results being watched.
+ */
+export function watchCollectionGroup<
+    TRaw = unknown,
+    TFinal = TRaw[]
+>(
+    api: EntityApi,
+    leasee: string,
+    collectionId: string | undefined,
+    constraints: QueryConstraintSpec[] = [],
+    options?: QueryListenerOptions<TRaw, TFinal>
+) {
+    const validPath = validatePath([collectionId]);
+    const validConstraints = validateConstraints(constraints);
+    const hashValue = (validPath && validConstraints) ? 
+        hashEntityKey(appKey(collectionGroupKey(validPath[0], validConstraints), options)) : "";
+
+    startQueryListener<TRaw, TFinal>(
+        api, leasee, validPath, validConstraints, hashValue, options, true
+    );
+
+    const cache = api.getClient().cache;
+
+    return lookupEntityTuple<TFinal>(cache, hashValue);
+}
+
+/**
+ * A function providing the same functionality as the `usePaginatedQuery`
+ * hook but designed for use within `useEffect` and event handlers.
+ * The only difference from `usePaginatedQuery` is that you need to pass an 
+ * {@link EntityApi} as the first parameter.
+ * 
+ * See [usePaginatedQuery](./usePaginatedQuery.html) for usage instructions.
+ * 
+ * @param api An EntityApi instance
+ * @param leasee The name of the leasee that is claiming a lease on the paginated query
+ * @param path The path to the collection to be queried. If any element of the path is `undefined`,
+ *      this function does nothing and returns an `IdleTuple` followed by a no-op function.
+ * @param constraints The constraints applied to the query.
+ * @param options options for the paginated query
+ * 
+ * @returns A Tuple describing the pages loaded so far, followed by a function that loads
+ *      the next page.
+ */
+export function watchPaginatedQuery<
+    TRaw = unknown,
+    TItem = TRaw
+>(
+    api: EntityApi,
+    leasee: string,
+    path: PathElement[],
+    constraints: QueryConstraintSpec[] = [],
+    options?: PaginatedQueryOptions<TRaw, TItem>
+): PaginatedQueryTuple<TItem> {
+    const validPath = validatePath(path);
+    const validConstraints = validateConstraints(constraints);
+    const pageSize = options?.pageSize || DEFAULT_PAGE_SIZE;
+    const hashValue = (validPath && validConstraints) ? 
+        hashEntityKey(appKey(paginatedQueryKey(validPath, pageSize, validConstraints), options)) : "";
+
+    startPaginatedQuery<TRaw, TItem>(api, leasee, validPath, validConstraints, hashValue, options);
+
+    const cache = api.getClient().cache;
+
+    return [
+        ...lookupEntityTuple<PaginatedQueryData<TItem>>(cache, hashValue),
+        () => loadMorePages(api, hashValue)
+    ];
+}
+
+/**
+ * A function providing the same functionality as the `useAggregate`
+ * hook but designed for use within `useEffect` and event handlers.
+ * The only difference from `useAggregate` is that you need to pass an 
+ * {@link EntityApi} as the first parameter.
+ * 
+ * See [useAggregate](./useAggregate.html) for usage instructions. Like the hook,
+ * this function supports only the `count` aggregation.
+ * 
+ * @param api An EntityApi instance
+ * @param leasee The name of the leasee that is claiming a lease on the aggregation results
+ * @param path The path to the collection to be queried. If any element of the path is 
+ *      `undefined`, this function does nothing and returns an `IdleTuple` followed by a 
+ *      no-op function.
+ * @param spec The aggregations to be computed. Only `["count"]` is supported.
+ * @param constraints The constraints applied to the query
+ * @param options options for the aggregation query
+ * 
+ * @returns A Tuple describing the aggregation results, followed by a function that runs
+ *      the aggregation query again.
+ */
+export function watchAggregate<TSpec extends AggregateSpec>(
+    api: EntityApi,
+    leasee: string,
+    path: PathElement[],
+    spec: TSpec,
+    constraints: QueryConstraintSpec[] = [],
+    options?: AggregateOptions
+): AggregateTuple<AggregateData<TSpec>> {
+    const validPath = validatePath(path);
+    const validConstraints = validateConstraints(constraints);
+    const hashValue = (validPath && validConstraints) ? 
+        hashEntityKey(appKey(aggregateKey(validPath, spec, validConstraints), options)) : "";
+
+    startAggregate(api, leasee, validPath, spec, validConstraints, hashValue, options);
+
+    return [
+        ...lookupEntityTuple<AggregateData<TSpec>>(api.getClient().cache, hashValue),
+        () => refreshLeasedEntity(api, hashValue)
+    ];
+}
+
+/**
+ * A function providing the same functionality as the `useRtdbListener`
+ * hook but designed for use within `useEffect` and event handlers.
+ * The only difference from `useRtdbListener` is that you need to pass an 
+ * {@link EntityApi} as the first parameter.
+ * 
+ * See [useRtdbListener](./useRtdbListener.html) for usage instructions.
+ * 
+ * @param api An EntityApi instance
+ * @param leasee The name of the leasee that is claiming a lease on the watched entity
+ * @param path The path to the location in the Realtime Database. If any element of the 
+ *      path is `undefined`, this function does nothing and returns 
+ *      `[undefined, undefined, "idle"]`.
+ * @param options options for the Realtime Database listener
+ * 
+ * @returns A Tuple describing the entity being watched.
+ */
+export function watchRtdbEntity<
+    TRaw = unknown,
+    TFinal = TRaw
+>(
+    api: EntityApi,
+    leasee: string,
+    path: PathElement[],
+    options?: RtdbListenerOptions<TRaw, TFinal>
+) {
+    const validPath = validatePath(path);
+    const hashValue = validPath ? hashEntityKey(appKey(rtdbKey(validPath), options)) : "";
+
+    startRtdbListener<TRaw, TFinal>(api, leasee, validPath, hashValue, options);
+
     const cache = api.getClient().cache;
 
     return lookupEntityTuple<TFinal>(cache, hashValue);
 }
 
+/**
+ * A function providing the same functionality as the `useStorageUrl`
+ * hook but designed for use within `useEffect` and event handlers.
+ * 
+ * See [useStorageUrl](./useStorageUrl.html) for usage instructions.
+ * 
+ * @param api An EntityApi instance
+ * @param leasee The name of the leasee that is claiming a lease on the download URL
+ * @param path The path to the object in Firebase Storage. If any element of the 
+ *      path is `undefined`, this function does nothing and returns 
+ *      `[undefined, undefined, "idle"]`.
+ * @param options options for accessing the Storage object
+ * 
+ * @returns A Tuple describing the download URL.
+ */
+export function fetchStorageUrl(
+    api: EntityApi,
+    leasee: string,
+    path: PathElement[],
+    options?: StorageOptions
+) {
+    const validPath = validatePath(path);
+    const hashValue = validPath ? hashEntityKey(appKey(storageUrlKey(validPath), options)) : "";
+
+    startStorageFetch(api, leasee, validPath, hashValue, 'url', options);
+
+    return lookupEntityTuple<string>(api.getClient().cache, hashValue);
+}
+
+/**
+ * A function providing the same functionality as the `useStorageMetadata`
+ * hook but designed for use within `useEffect` and event handlers.
+ * 
+ * See [useStorageMetadata](./useStorageMetadata.html) for usage instructions.
+ * 
+ * @param api An EntityApi instance
+ * @param leasee The name of the leasee that is claiming a lease on the metadata
+ * @param path The path to the object in Firebase Storage. If any element of the 
+ *      path is `undefined`, this function does nothing and returns 
+ *      `[undefined, undefined, "idle"]`.
+ * @param options options for accessing the Storage object
+ * 
+ * @returns A Tuple describing the metadata.
+ */
+export function fetchStorageMetadata(
+    api: EntityApi,
+    leasee: string,
+    path: PathElement[],
+    options?: StorageOptions
+) {
+    const validPath = validatePath(path);
+    const hashValue = validPath ? hashEntityKey(appKey(storageMetadataKey(validPath), options)) : "";
+
+    startStorageFetch(api, leasee, validPath, hashValue, 'metadata', options);
+
+    return lookupEntityTuple<StorageMetadata>(api.getClient().cache, hashValue);
+}
+
+/**
+ * Upload a file to Firebase Storage and track the progress of the upload in the cache.
+ * 
+ * The progress is stored as an [UploadProgress](../interfaces/UploadProgress.html) entity
+ * under the given key, so any component can follow the upload via the 
+ * [useEntity](./useEntity.html) hook. When the upload succeeds, the entity includes the 
+ * download URL for the file. If the upload fails, the entity holds the error.
+ * 
+ * This function makes a claim on the progress entity on behalf of the given leasee.
+ * When the entity is evicted, the progress is no longer tracked, but the upload 
+ * itself is not cancelled.
+ * 
+ * #### Example
+ * ```typescript
+ *  const api = useEntityApi();
+ *  const uploadKey = ["upload", "avatar", userUid];
+ * 
+ *  function handleFileSelected(file: File) {
+ *      uploadFile(api, "AvatarForm", uploadKey, file, ["avatars", userUid]);
+ *  }
+ * 
+ *  // In this component or any other:
+ *  const [progress, progressError, progressStatus] = 
+ *      useEntity<UploadProgress>(uploadKey);
+ * 
+ *  useReleaseAllClaims("AvatarForm");
+ * ```
+ * 
+ * @param api An EntityApi instance
+ * @param leasee The name of the component making a claim on the progress entity
+ * @param key The key under which the progress entity is stored in the cache
+ * @param file The data to be uploaded
+ * @param path The path to the object in Firebase Storage
+ * @param options Optional parameters for the upload
+ * @returns The Firebase `UploadTask`, which may be used to pause, resume or cancel the upload.
+ * 
+ * @throws Error if the key is an EntityKey containing an undefined value.
+ */
+export function uploadFile(
+    api: EntityApi,
+    leasee: string,
+    key: string | EntityKey,
+    file: Blob | Uint8Array | ArrayBuffer,
+    path: string[],
+    options?: UploadOptions
+) {
+    const hashValue = toHashValue(key);
+    if (!hashValue) {
+        throw new Error("Invalid key");
+    }
+
+    return startUpload(api, leasee, hashValue, file, path, options);
+}
+
+/**
+ * A function providing the same functionality as the `useCallable`
+ * hook but designed for use within `useEffect` and event handlers.
+ * The only difference from `useCallable` is that you need to pass an 
+ * {@link EntityApi} as the first parameter.
+ * 
+ * See [useCallable](./useCallable.html) for usage instructions.
+ * 
+ * @param api An EntityApi instance
+ * @param leasee The name of the leasee that is claiming a lease on the result
+ * @param name The name of the callable function
+ * @param args The arguments passed to the callable function. If the arguments contain
+ *      an `undefined` value, this function does nothing and returns 
+ *      `[undefined, undefined, "idle"]`.
+ * @param options options for calling the function
+ * 
+ * @returns A Tuple describing the result of the callable function.
+ */
+export function callFunction<TArgs = unknown, TResult = unknown>(
+    api: EntityApi,
+    leasee: string,
+    name: string,
+    args: TArgs,
+    options?: CallableOptions
+) {
+    const hashValue = toHashValue(appKey(callableKey(name, args, options?.region), options));
+
+    startCallable(api, leasee, name, args, hashValue, options);
+
+    return lookupEntityTuple<TResult>(api.getClient().cache, hashValue);
+}
+
+/**
+ * Write a document to Firestore.
+ * 
+ * By default, the cached entity for the document (if any) is updated immediately,
+ * so that every component watching the document renders the new data without 
+ * waiting for the server. If the write is rejected, the cached entity is rolled
+ * back to its previous value.
+ * 
+ * The returned Promise never rejects. Instead, it resolves to an `ErrorTuple`
+ * if the write fails.
+ * 
+ * #### Example
+ * ```typescript
+ *  const api = useEntityApi();
+ * 
+ *  async function handleSave(city: City) {
+ *      const [, error] = await setDocument(api, ["cities", city.id], city);
+ *      if (error) {
+ *          // Report the error
+ *      }
+ *  }
+ * ```
+ * 
+ * @param api An EntityApi instance
+ * @param path The path to the document in Firestore
+ * @param data The data for the document
+ * @param options Options for the write
+ * @returns A Promise that resolves to a `SuccessTuple` or an `ErrorTuple`.
+ * 
+ * @throws Error if the path contains an undefined value.
+ */
+export function setDocument<T = DocumentData>(
+    api: EntityApi,
+    path: string[],
+    data: WithFieldValue<T>,
+    options?: SetDocumentOptions<T>
+) {
+    const validPath = validateWritePath(path);
+    const merge = Boolean(options?.merge);
+    const converter = options?.converter;
+
+    return writeDocument(
+        api,
+        hashEntityKey(appKey(validPath, options)),
+        () => setDoc(documentRef(api, validPath, options) as DocumentReference<T>, data, {merge}),
+        optimisticUpdate(options, current => setFields(current, data as object, merge, converter))
+    );
+}
+
+/**
+ * Update some fields of an existing document in Firestore.
+ * 
+ * The keys of `changes` may be dot-separated paths to nested fields.
+ * 
+ * Like [setDocument](./setDocument.html), this function updates the cached 
+ * entity optimistically and rolls back if the write is rejected.
+ * 
+ * @param api An EntityApi instance
+ * @param path The path to the document in Firestore
+ * @param changes The fields to be updated
+ * @param options Options for the write
+ * @returns A Promise that resolves to a `SuccessTuple` or an `ErrorTuple`.
+ * 
+ * @throws Error if the path contains an undefined value.
+ */
+export function updateDocument<T extends DocumentData = DocumentData>(
+    api: EntityApi,
+    path: string[],
+    changes: UpdateData<T>,
+    options?: WriteOptions
+) {
+    const validPath = validateWritePath(path);
+
+    return writeDocument(
+        api,
+        hashEntityKey(appKey(validPath, options)),
+        () => updateDoc(documentRef(api, validPath, options) as DocumentReference<T>, changes),
+        optimisticUpdate(options, current => updateFields(current, changes))
+    );
+}
+
+/**
+ * Delete a document from Firestore.
+ * 
+ * Like [setDocument](./setDocument.html), this function updates the cached 
+ * entity optimistically and rolls back if the write is rejected. While the
+ * delete is in flight, the entity has the `removed` status.
+ * 
+ * @param api An EntityApi instance
+ * @param path The path to the document in Firestore
+ * @param options Options for the write
+ * @returns A Promise that resolves to a `SuccessTuple` or an `ErrorTuple`.
+ * 
+ * @throws Error if the path contains an undefined value.
+ */
+export function deleteDocument(
+    api: EntityApi,
+    path: string[],
+    options?: WriteOptions
+) {
+    const validPath = validateWritePath(path);
+
+    return writeDocument(
+        api,
+        hashEntityKey(appKey(validPath, options)),
+        () => deleteDoc(documentRef(api, validPath, options)),
+        optimisticUpdate(options, () => null)
+    );
+}
+
+/**
+ * Run a Firestore transaction and apply its writes to the cache.
+ * 
+ * The `updateFunction` receives an {@link EntityTransaction} which wraps the 
+ * Firestore `Transaction`. Writes staged through the EntityTransaction are applied
+ * to the cached entities in a single step when the update function completes, 
+ * before the transaction commits, so that components never render a state in which
+ * only some of the writes are visible. The writes are rolled back if the 
+ * transaction fails.
+ * 
+ * Like the Firestore `runTransaction` function, the update function may be
+ * invoked more than once if the transaction encounters contention.
+ * 
+ * #### Example
+ * ```typescript
+ *  const api = useEntityApi();
+ * 
+ *  function handleMove(itemId: string, from: string, to: string) {
+ *      runEntityTransaction(api, async (tx) => {
+ *          const [item] = await tx.get<Item>(["lists", from, "items", itemId]);
+ *          if (!item) {
+ *              throw new Error("Item not found");
+ *          }
+ *          tx.delete(["lists", from, "items", itemId]);
+ *          tx.set(["lists", to, "items", itemId], item);
+ *      })
+ *  }
+ * ```
+ * 
+ * @param api An EntityApi instance
+ * @param updateFunction The function to execute within the transaction
+ * @param options Options for the Firestore transaction, and the name of the
+ *      FirebaseApp in which the transaction runs
+ * @typeParam T The type of the value returned by the update function
+ * @returns A Promise that resolves to a `SuccessTuple` holding the value returned by
+ *      the update function, or an `ErrorTuple` if the transaction failed. The 
+ *      Promise never rejects.
+ */
+export function runEntityTransaction<T>(
+    api: EntityApi,
+    updateFunction: (transaction: EntityTransaction) => Promise<T>,
+    options?: TransactionOptions & AppOptions
+) {
+    return startTransaction(api, updateFunction, options);
+}
+
+/**
+ * Create a batch of writes that are committed to Firestore atomically and 
+ * applied to the cache in a single step when the batch is committed. The writes
+ * are rolled back if the commit fails.
+ * 
+ * #### Example
+ * ```typescript
+ *  const [, error] = await entityBatch(api)
+ *      .delete(["lists", from, "items", itemId])
+ *      .set(["lists", to, "items", itemId], item)
+ *      .commit();
+ * ```
+ * 
+ * @param api An EntityApi instance
+ * @param options Selects the FirebaseApp to which the batch is committed
+ * @returns An {@link EntityBatch} that stages the writes.
+ */
+export function entityBatch(api: EntityApi, options?: AppOptions) {
+    return new EntityBatch(api, options);
+}
 
+function optimisticUpdate(options: WriteOptions | undefined, computeNext: (current: unknown) => unknown) {
+    return options?.optimistic === false ? undefined : computeNext;
+}
 
 /**
  * Insert or update the data value for some entity in the cache.
@@ -141,6 +737,168 @@ export function getAuthUser<UserType=User>(entityProvider: EntityApi | Cache):
     }
 }
 
+/**
+ * Get the `IdTokenResult` of the authenticated user from the cache, including 
+ * custom claims.
+ * 
+ * The token is available only if the `includeIdToken` option was passed to 
+ * [useAuthListener](./useAuthListener.html).
+ * 
+ * @param entityProvider An EntityApi instance or the Cache.
+ * @returns An `AuthTuple` for the ID token of the authenticated user, or an 
+ *      `IdleTuple` if the ID token listener has not been started.
+ */
+export function getAuthClaims(entityProvider: EntityApi | Cache): 
+    AuthTuple<IdTokenResult> | IdleTuple
+{
+    if ("getClient" in entityProvider) {
+        const api = entityProvider as EntityApi;
+        const client = api.getClient();
+        if (!client.leases.has(AUTH_CLAIMS)) {
+            return [undefined, undefined, "idle"];
+        }
+        return lookupAuthTuple<IdTokenResult>(client.cache, AUTH_CLAIMS);
+    } else {
+        const cache = entityProvider as Cache;
+        if (!(AUTH_CLAIMS in cache)) {
+            return [undefined, undefined, "idle"];
+        }
+        return lookupAuthTuple<IdTokenResult>(cache, AUTH_CLAIMS);
+    }
+}
+
+/**
+ * Force a refresh of the authenticated user's ID token, and update the 
+ * cached `IdTokenResult`.
+ * 
+ * Call this function after the user's custom claims have been changed on 
+ * the server, since Firebase Auth refreshes the ID token only once per hour.
+ * 
+ * #### Example
+ * ```typescript
+ *  const api = useEntityApi();
+ * 
+ *  async function handleUpgrade() {
+ *      await callUpgradeFunction();
+ *      await refreshAuthClaims(api);
+ *  }
+ * ```
+ * 
+ * @param api An EntityApi instance
+ * @returns A Promise that resolves to an `AuthTuple` for the refreshed ID token. 
+ *      The Promise never rejects.
+ */
+export function refreshAuthClaims(api: EntityApi): Promise<AuthTuple<IdTokenResult>> {
+    const client = api.getClient();
+    const user = getAuth(client.firebaseApp).currentUser;
+    if (!user) {
+        return Promise.resolve([null, undefined, 'signedOut']);
+    }
+
+    return user.getIdTokenResult(true).then(
+        result => result,
+        error => asError(error, "Failed to refresh the ID token")
+    ).then(value => {
+        if (api.getClient().leases.has(AUTH_CLAIMS)) {
+            setEntity(api, AUTH_CLAIMS, value);
+        }
+        return value instanceof Error ?
+            [undefined, value, 'error'] :
+            [value, undefined, 'signedIn'];
+    })
+}
+
+/**
+ * Sign in with a popup window for the given identity provider.
+ * 
+ * The status of the sign-in is stored in the cache and may be observed with 
+ * the [useAuthAction](./useAuthAction.html) hook. The signed-in user itself is
+ * delivered through [useAuthListener](./useAuthListener.html) as usual.
+ * 
+ * If an account already exists with the same email address but a different 
+ * identity provider, the error is an {@link IncompatibleIdentityProviderError}
+ * which holds the email address and the pending credential, so that the 
+ * application can run an account-linking flow.
+ * 
+ * #### Example
+ * ```typescript
+ *  const api = useEntityApi();
+ * 
+ *  async function handleSignIn() {
+ *      const [, error] = await signInWith(api, new GoogleAuthProvider());
+ *      if (error instanceof IncompatibleIdentityProviderError) {
+ *          // Ask the user to sign in with their original provider, 
+ *          // then call `linkWithCredential(user, error.credential)`.
+ *      }
+ *  }
+ * ```
+ * 
+ * @param api An EntityApi instance
+ * @param provider The identity provider
+ * @returns A Promise that resolves to a `SuccessTuple` holding the `UserCredential`,
+ *      or an `ErrorTuple`. The Promise never rejects.
+ */
+export function signInWith(api: EntityApi, provider: AuthProvider) {
+    const auth = getAuth(api.getClient().firebaseApp);
+    return runAuthAction(api, 'signIn', () => signInWithPopup(auth, provider));
+}
+
+/**
+ * Sign out the current user.
+ * 
+ * The status of the sign-out is stored in the cache and may be observed with 
+ * the [useAuthAction](./useAuthAction.html) hook.
+ * 
+ * @param api An EntityApi instance
+ * @returns A Promise that resolves to a `SuccessTuple` or an `ErrorTuple`.
+ *      The Promise never rejects.
+ */
+export function signOutUser(api: EntityApi) {
+    const auth = getAuth(api.getClient().firebaseApp);
+    return runAuthAction(api, 'signOut', () => signOut(auth));
+}
+
+/**
+ * Link the current user's account with another identity provider, using a popup 
+ * window to sign in with that provider.
+ * 
+ * The status of the action is stored in the cache and may be observed with 
+ * the [useAuthAction](./useAuthAction.html) hook.
+ * 
+ * @param api An EntityApi instance
+ * @param provider The identity provider to be linked
+ * @returns A Promise that resolves to a `SuccessTuple` holding the `UserCredential`,
+ *      or an `ErrorTuple`. The Promise never rejects.
+ */
+export function linkAccount(api: EntityApi, provider: AuthProvider) {
+    return runAuthAction(api, 'link', () => linkWithPopup(requireCurrentUser(api), provider));
+}
+
+/**
+ * Reauthenticate the current user with a popup window for the given identity 
+ * provider. Firebase Auth requires a recent sign-in before sensitive operations
+ * such as deleting the account or changing the password.
+ * 
+ * The status of the action is stored in the cache and may be observed with 
+ * the [useAuthAction](./useAuthAction.html) hook.
+ * 
+ * @param api An EntityApi instance
+ * @param provider The identity provider
+ * @returns A Promise that resolves to a `SuccessTuple` holding the `UserCredential`,
+ *      or an `ErrorTuple`. The Promise never rejects.
+ */
+export function reauthenticate(api: EntityApi, provider: AuthProvider) {
+    return runAuthAction(api, 'reauthenticate', () => reauthenticateWithPopup(requireCurrentUser(api), provider));
+}
+
+function requireCurrentUser(api: EntityApi) {
+    const user = getAuth(api.getClient().firebaseApp).currentUser;
+    if (!user) {
+        throw new Error("No user is signed in");
+    }
+    return user;
+}
+
 /**
  * Set the value of the current user in the cache.
  * 
@@ -296,6 +1054,22 @@ export function getEntity<Type>(entityProvider: EntityApi | Cache, key: string |
     return lookupEntityTuple<Type>(cache, hashValue);
 }
 
+/**
+ * Get metadata about the most recent snapshot received for a leased entity.
+ * 
+ * `getEntityMetadata` provides the same functionality as 
+ * [useEntityMetadata](./useEntityMetadata.html), except it is designed for use 
+ * inside `useEffect`, event handlers and the {@link EntityApi.mutate} method.
+ * 
+ * @param entityProvider An EntityApi instance or the cache
+ * @param key The key under which the entity is stored in the cache
+ * @returns The metadata for the entity, or `undefined` if no snapshot has been received.
+ */
+export function getEntityMetadata(entityProvider: EntityApi | Cache, key: string | EntityKey) {
+    const cache = resolveCache(entityProvider);
+    return lookupEntityMetadata(cache, toHashValue(key));
+}
+
 export function getClientState<T>(client: EntityClient) {
     return client.cache as T
 }
@@ -321,15 +1095,7 @@ export function releaseClaim(api: EntityApi, leasee: string, key: string | Entit
         const client = api.getClient();
         const lease = client.leases.get(hashValue);
         if (lease) {
-            removeLeaseeFromLease(client, lease, leasee);
-            const leaseeLeases = client.leaseeLeases;
-            const set = leaseeLeases.get(leasee);
-            if (set) {
-                set.delete(lease);
-                if (set.size === 0) {
-                    leaseeLeases.delete(leasee);
-                }
-            }
+            releaseLeaseClaim(client, lease, leasee);
         }
     }
 }
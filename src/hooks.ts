@@ -1,13 +1,15 @@
-import { getAuth, onAuthStateChanged, User } from "firebase/auth";
-import { useContext, useEffect } from "react";
-import { CURRENT_USER, DocListenerOptions, lookupAuthTuple, lookupEntityTuple, startDocListener, validatePath } from "./common";
+import { getAuth, IdTokenResult, onAuthStateChanged, User, UserCredential } from "firebase/auth";
+import { useCallback, useContext, useEffect, useRef, useState } from "react";
+import { appKey, AUTH_CLAIMS, lookupAuthActionTuple, startIdTokenListener, aggregateKey, AggregateOptions, callableKey, CallableOptions, collectionGroupKey, combineEntityTuples, joinReferences, referenceLeasee, syncReferenceListeners, CURRENT_USER, startAggregate, startCallable, DocFetchOptions, DocListenerOptions, refreshLeasedEntity, rtdbKey, RtdbListenerOptions, startDocFetch, startRtdbListener, startStorageFetch, storageMetadataKey, StorageOptions, storageUrlKey, lookupAuthTuple, lookupEntityMetadata, lookupEntityTuple, queryKey, QueryListenerOptions, startDocListener, startQueryListener, validateConstraints, validatePath } from "./common";
 import { FirebaseContext } from "./components/FirebaseContext/FirebaseContext";
 import { EntityApi } from "./EntityApi";
-import { createLeasedEntity } from "./EntityClient";
+import { createLeasedEntity, derivedLeasee, evictUserEntities, notifyListenerError } from "./EntityClient";
+import { releaseClaim } from "./functions";
 import { releaseAllClaims } from "./releaseAllClaims";
 import { setEntity } from "./setEntity";
-import { AuthErrorEvent, AuthTuple, EntityKey, EntityTuple, IdleTuple, PathElement, UserChangeEvent, UserSignedOutEvent } from "./types";
-import { hashEntityKey, validateKey } from "./util";
+import { DEFAULT_PAGE_SIZE, loadMorePages, PaginatedQueryOptions, paginatedQueryKey, startPaginatedQuery } from "./QueryPaginator";
+import { AggregateData, AggregateSpec, AggregateTuple, AuthAction, AuthActionTuple, AuthErrorEvent, AuthTuple, DocFetchTuple, DocsListenerTuple, EntityKey, EntityTuple, IdleTuple, MutationTuple, PaginatedQueryData, PaginatedQueryTuple, PathElement, PendingTuple, QueryConstraintSpec, StorageMetadata, UserChangeEvent, UserSignedOutEvent, WriteResultTuple } from "./types";
+import { hashEntityKey, toHashValue, validateKey } from "./util";
 
 
 /** The lease options for the Firebase Auth user */
@@ -55,6 +57,12 @@ export const AUTH_USER_LEASE_OPTIONS = {abandonTime: Number.POSITIVE_INFINITY};
  *              // `cityError` is undefined.
  *              break;
  * 
+ *          case "notFound":
+ *              // The document did not exist when the listener started.
+ *              // `city` is null.
+ *              // `cityError` is undefined.
+ *              break;
+ * 
  *          case "error":
  *              // An error occurred while fetching the document from Firestore.
  *              // `city` is undefined.
@@ -149,7 +157,9 @@ export function useDocListener<
     const api = client.api;
 
     const validPath = validatePath(path);
-    const hashValue = validPath ? hashEntityKey(validPath) : '';
+    const hashValue = validPath ? hashEntityKey(appKey(validPath, options)) : '';
+    const resolve = options?.resolve;
+    const tuple = lookupEntityTuple<TFinal>(client.cache, hashValue);
 
     useEffect( () => {
         startDocListener<TServer, TFinal>(
@@ -158,6 +168,642 @@ export function useDocListener<
 
     }, [leasee, hashValue, client, validPath, options])
 
+    useReferenceListeners(leasee, resolve, [hashValue], [tuple[0]]);
+
+    useEffect( () => () => {
+        api.getClient().disownAllLeases(leasee);
+    }, [api, leasee])
+
+    return resolve ? joinReferences(client, tuple, resolve) : tuple;
+}
+
+/**
+ * Start listeners for the documents referenced by the `resolve` fields of the
+ * given entities, and release claims on documents that are no longer referenced.
+ * 
+ * @param hashValues The hash of the key for each entity
+ * @param dataList The data for each entity
+ */
+function useReferenceListeners(
+    leasee: string, 
+    resolve: string[] | undefined, 
+    hashValues: string[], 
+    dataList: unknown[]
+) {
+    const client = useClient();
+    const stableResolve = useStableArray(resolve || []);
+    const stableHashValues = useStableArray(hashValues);
+    const stableDataList = useStableArray(dataList);
+    const previousHashValues = useRef<string[]>([]);
+
+    useEffect( () => {
+        if (stableResolve.length === 0) {
+            return;
+        }
+        stableHashValues.forEach((hashValue, index) => {
+            if (hashValue) {
+                syncReferenceListeners(client.api, leasee, hashValue, stableDataList[index], stableResolve);
+            }
+        })
+
+        // Release the references held for entities that were removed from the list.
+        previousHashValues.current.forEach(hashValue => {
+            if (!stableHashValues.includes(hashValue)) {
+                client.disownAllLeases(referenceLeasee(leasee, hashValue));
+            }
+        })
+        previousHashValues.current = stableHashValues;
+
+    }, [leasee, client, stableResolve, stableHashValues, stableDataList])
+}
+
+/**
+ * Get an array whose identity changes only when its elements change, so that it
+ * can be used as a dependency of `useEffect`.
+ */
+function useStableArray<T>(values: T[]) {
+    const ref = useRef(values);
+    const previous = ref.current;
+    if (
+        previous.length !== values.length ||
+        previous.some((value, index) => value !== values[index])
+    ) {
+        ref.current = values;
+    }
+    return ref.current;
+}
+
+/**
+ * A hook that uses snapshot listeners to retrieve data from a dynamic list of 
+ * Firestore documents.
+ * 
+ * Hooks cannot be called in a loop, so [useDocListener](./useDocListener.html) 
+ * cannot be used to listen to a list of documents whose length varies. This hook 
+ * starts one document listener for each path, exactly as `useDocListener` would,
+ * and makes a claim on each document.
+ * 
+ * When a path is removed from the list, the claim on that document is released.
+ * When the component unmounts, all claims made by the component are released.
+ * 
+ * #### Example
+ * ```typescript
+ *  function TeamMembers({team}: {team: Team}) {
+ *      const paths = team.memberIds.map(id => ["users", id]);
+ *      const [members, membersError, membersStatus, memberTuples] = 
+ *          useDocsListener<UserProfile>("TeamMembers", paths);
+ * 
+ *      switch (membersStatus) {
+ *          case "pending":
+ *              // At least one document has not been received yet.
+ *              break;
+ * 
+ *          case "error":
+ *              // At least one document listener failed.
+ *              // `membersError` is the first error encountered.
+ *              break;
+ * 
+ *          case "success":
+ *              // `members` is an array containing the data for each path, 
+ *              // or `null` for documents that are removed or not found, and
+ *              // for paths that contain an `undefined` element.
+ *              break;
+ *      }
+ *  }
+ * ```
+ * The `memberTuples` array contains the `EntityTuple` for each document, which is
+ * useful if you want to render each document as soon as it is available.
+ * 
+ * @param leasee The name of the component making a claim on the documents.
+ * @param paths The paths to the documents in Firestore. A path that contains an 
+ *  `undefined` element is ignored when computing the combined status, and its
+ *  `EntityTuple` is an [IdleTuple](../types/IdleTuple.html).
+ * @param options Options applied to every document listener.
+ * 
+ * @typeParam TServer The type of data stored in each Firestore document
+ * @typeParam TFinal The final type of data for each document. If a `transform` handler
+ *      is provided in the `options`, then `TFinal` is the type of object returned by
+ *      that handler.  Otherwise, it is the same as `TServer` by default.
+ * 
+ * @returns A [DocsListenerTuple](../types/DocsListenerTuple.html) whose first three
+ *      elements combine the states of all documents, and whose last element contains
+ *      the `EntityTuple` for each document.
+ */
+export function useDocsListener<
+    TServer = unknown,
+    TFinal = TServer,
+>(
+    leasee: string,
+    paths: PathElement[][],
+    options?: DocListenerOptions<TServer, TFinal>
+) : DocsListenerTuple<TFinal> {
+
+    const client = useClient();
+    const api = client.api;
+
+    const validPaths = paths.map(validatePath);
+    const hashValues = useStableArray(
+        validPaths.map(validPath => validPath ? hashEntityKey(appKey(validPath, options)) : '')
+    );
+    const previousHashValues = useRef<string[]>([]);
+
+    // The paths are new arrays on each render, so the effect reads the latest
+    // paths from this ref and runs only when the hash values change.
+    const latestPaths = useRef(validPaths);
+    latestPaths.current = validPaths;
+
+    // The documents in the list are claimed by a derived leasee, so that removing
+    // a path from the list does not release a claim that the component holds 
+    // on the same document through another hook.
+    const listLeasee = derivedLeasee(leasee, 'docs');
+
+    useEffect( () => {
+        latestPaths.current.forEach((validPath, index) => {
+            startDocListener<TServer, TFinal>(
+                client.api, listLeasee, validPath, hashValues[index], options
+            );
+        })
+
+        previousHashValues.current.forEach(hashValue => {
+            if (hashValue && !hashValues.includes(hashValue)) {
+                releaseClaim(client.api, listLeasee, hashValue);
+            }
+        })
+        previousHashValues.current = hashValues;
+
+    }, [listLeasee, client, hashValues, options])
+
+    const resolve = options?.resolve;
+    const rawTuples = hashValues.map(hashValue => lookupEntityTuple<TFinal>(client.cache, hashValue));
+    useReferenceListeners(leasee, resolve, hashValues, rawTuples.map(tuple => tuple[0]));
+
+    useEffect( () => () => {
+        api.getClient().disownAllLeases(leasee);
+    }, [api, leasee])
+
+    const tuples = resolve ? 
+        rawTuples.map(tuple => joinReferences(client, tuple, resolve)) : 
+        rawTuples;
+
+    return [...combineEntityTuples(tuples), tuples];
+}
+
+/**
+ * A hook that fetches a Firestore document once, instead of listening for changes
+ * with a snapshot listener.
+ * 
+ * This hook is useful for documents that are large and rarely change. The document
+ * is fetched when the lease is created, and it may be fetched again periodically
+ * (via the `refetchInterval` option) or on demand (via the function returned as the
+ * last element of the tuple).  While the document is being fetched again, the tuple
+ * continues to hold the previously fetched data.
+ * 
+ * Like [useDocListener](./useDocListener.html), this hook creates a `Lease` if one does 
+ * not already exist for the document, makes a claim on the document, and releases all 
+ * claims made by the component when it unmounts.  The document is stored in the cache 
+ * under the same key used by `useDocListener`. Consequently, if a document listener is 
+ * already running for the document, this hook simply makes a claim on the entity 
+ * managed by that listener. If a document listener starts after the document was
+ * fetched, the listener takes over the entity, and the document is no longer refetched.
+ * 
+ * If the document does not exist, the status is "notFound".
+ * 
+ * #### Example
+ * ```typescript
+ *  const [catalog, catalogError, catalogStatus, refetchCatalog] = useDocFetch<Catalog>(
+ *      "CatalogComponent", ["catalogs", catalogId], {refetchInterval: 600000}
+ *  );
+ * ```
+ * 
+ * @param leasee The name of the component making a claim on the document.
+ * @param path The path to the document in Firestore. If any element in the path is
+ *  `undefined`, the hook returns an [IdleTuple](../types/IdleTuple.html) followed by 
+ *  a no-op function.
+ * @param options An object encapsulating optional parameters.
+ * 
+ * @typeParam TServer The type of data stored in the Firestore document
+ * @typeParam TFinal The final type of data to be returned. If a `transform` handler
+ *      is provided in the `options`, then `TFinal` is the type of object returned by
+ *      that handler.  Otherwise, it is the same as `TServer` by default.
+ */
+export function useDocFetch<
+    TServer = unknown,
+    TFinal = TServer,
+>(
+    leasee: string,
+    path: PathElement[],
+    options?: DocFetchOptions<TServer, TFinal>
+) : DocFetchTuple<TFinal> {
+
+    const client = useClient();
+    const api = client.api;
+
+    const validPath = validatePath(path);
+    const hashValue = validPath ? hashEntityKey(appKey(validPath, options)) : '';
+
+    useEffect( () => {
+        startDocFetch<TServer, TFinal>(
+            client.api, leasee, validPath, hashValue, options
+        );
+
+    }, [leasee, hashValue, client, validPath, options])
+
+    useEffect( () => () => {
+        api.getClient().disownAllLeases(leasee);
+    }, [api, leasee])
+
+    const refetch = useCallback(() => refreshLeasedEntity(api, hashValue), [api, hashValue]);
+
+    return [
+        ...lookupEntityTuple<TFinal>(client.cache, hashValue),
+        refetch
+    ];
+}
+
+/**
+ * A hook that uses a snapshot listener to retrieve the results of a Firestore query.
+ * 
+ * Like [useDocListener](./useDocListener.html), this hook will create a `Lease` if one 
+ * does not already exist for the query results, and it will make a claim on that entity.
+ * It also releases all claims made by the component when it unmounts.
+ * 
+ * The query results are stored in the cache under an [EntityKey](../types/EntityKey.html)
+ * consisting of the collection path followed by the query constraints.
+ * 
+ * #### Example 1
+ * This example assumes you have a Firestore collection named "cities" that contains
+ * documents whose data matches the `City` type.
+ * ```typescript
+ *  function CaliforniaCities() {
+ *      const [cities, citiesError, citiesStatus] = useQueryListener<City>(
+ *          "CaliforniaCities", ["cities"], [
+ *              ["where", "state", "==", "CA"],
+ *              ["orderBy", "name"]
+ *          ]
+ *      );
+ * 
+ *      switch (citiesStatus) {
+ *          case "idle":
+ *              // The path or constraints contain an undefined value, and 
+ *              // therefore a query listener was not started.
+ *              break;
+ * 
+ *          case "pending":
+ *              // The query results have not yet been received from Firestore.
+ *              break;
+ * 
+ *          case "error":
+ *              // An error occurred while executing the query.
+ *              // `citiesError` contains the Error thrown by Firestore.
+ *              break;
+ * 
+ *          case "success":
+ *              // `cities` contains an array of `City` objects. The array
+ *              // is empty if no documents matched the query.
+ *              break;
+ *      }
+ *  }
+ * ```
+ * 
+ * #### Example 2
+ * If any element in the path or constraints is `undefined`, then `useQueryListener`
+ * returns an [IdleTuple](../types/IdleTuple.html).
+ * ```typescript
+ *  const [user] = useAuthUser();
+ *  const [posts, postsError, postsStatus] = useQueryListener<Post>(
+ *      "MyPosts", ["posts"], [["where", "author", "==", user?.uid]]
+ *  );
+ * ```
+ * 
+ * @param leasee The name of the component making a claim on the query results.
+ * @param path The path to the collection in Firestore. Each element in the path
+ *  is a string or the `undefined` value.
+ * @param constraints The constraints applied to the query
+ * @param options An object encapsulating optional parameters.
+ * 
+ * @typeParam TServer The type of data stored in each Firestore document
+ * @typeParam TFinal The final type of data to be returned. If a `transform` handler
+ *      is provided in the `options`, then `TFinal` is the type of object returned by
+ *      that handler.  Otherwise, it is an array of `TServer` values.
+ */
+export function useQueryListener<
+    TServer = unknown,
+    TFinal = TServer[],
+>(
+    leasee: string,
+    path: PathElement[],
+    constraints: QueryConstraintSpec[] = [],
+    options?: QueryListenerOptions<TServer, TFinal>
+) : EntityTuple<TFinal> {
+
+    const client = useClient();
+    const api = client.api;
+
+    const validPath = validatePath(path);
+    const validConstraints = validateConstraints(constraints);
+    const hashValue = (validPath && validConstraints) ? 
+        hashEntityKey(appKey(queryKey(validPath, validConstraints), options)) : '';
+
+    useEffect( () => {
+        startQueryListener<TServer, TFinal>(
+            client.api, leasee, validPath, validConstraints, hashValue, options
+        );
+
+    }, [leasee, hashValue, client, validPath, validConstraints, options])
+
+    useEffect( () => () => {
+        api.getClient().disownAllLeases(leasee);
+    }, [api, leasee])
+
+    return lookupEntityTuple<TFinal>(client.cache, hashValue);
+}
+
+/**
+ * A hook that uses a snapshot listener to retrieve the results of a Firestore
+ * collection group query, i.e. a query that spans all collections with a given id.
+ * 
+ * This hook behaves like [useQueryListener](./useQueryListener.html) except that the
+ * query is built from a collection id instead of a collection path.
+ * 
+ * The query results are stored in the cache under an [EntityKey](../types/EntityKey.html)
+ * of the form:
+ * ```javascript
+ *  [{collectionGroup: collectionId}, ...constraints]
+ * ```
+ * 
+ * #### Example
+ * Suppose each document in a "posts" collection has a "comments" subcollection.
+ * The following snippet listens to all comments authored by a given user across
+ * every post.
+ * ```typescript
+ *  const [comments, commentsError, commentsStatus] = useCollectionGroupListener<Comment>(
+ *      "UserComments", "comments", [["where", "author", "==", userUid]]
+ *  );
+ * ```
+ * 
+ * @param leasee The name of the component making a claim on the query results.
+ * @param collectionId The id of the collections to be queried. If this value is `undefined`,
+ *  the hook returns an [IdleTuple](../types/IdleTuple.html).
+ * @param constraints The constraints applied to the query
+ * @param options An object encapsulating optional parameters.
+ * 
+ * @typeParam TServer The type of data stored in each Firestore document
+ * @typeParam TFinal The final type of data to be returned. If a `transform` handler
+ *      is provided in the `options`, then `TFinal` is the type of object returned by
+ *      that handler.  Otherwise, it is an array of `TServer` values.
+ */
+export function useCollectionGroupListener<
+    TServer = unknown,
+    TFinal = TServer[],
+>(
+    leasee: string,
+    collectionId: string | undefined,
+    constraints: QueryConstraintSpec[] = [],
+    options?: QueryListenerOptions<TServer, TFinal>
+) : EntityTuple<TFinal> {
+
+    const client = useClient();
+    const api = client.api;
+
+    const validPath = validatePath([collectionId]);
+    const validConstraints = validateConstraints(constraints);
+    const hashValue = (validPath && validConstraints) ? 
+        hashEntityKey(appKey(collectionGroupKey(validPath[0], validConstraints), options)) : '';
+
+    useEffect( () => {
+        startQueryListener<TServer, TFinal>(
+            client.api, leasee, validPath, validConstraints, hashValue, options, true
+        );
+
+    }, [leasee, hashValue, client, validPath, validConstraints, options])
+
+    useEffect( () => () => {
+        api.getClient().disownAllLeases(leasee);
+    }, [api, leasee])
+
+    return lookupEntityTuple<TFinal>(client.cache, hashValue);
+}
+
+/**
+ * A hook that loads the results of a Firestore query one page at a time.
+ * 
+ * Each page is fetched by a query that starts after the last document of the
+ * previous page, and a live listener is kept on every page that has been loaded.
+ * All the pages are stored in the cache as a single 
+ * [PaginatedQueryData](../interfaces/PaginatedQueryData.html) entity governed by
+ * one `Lease`. When the entity is evicted, the listeners for all pages are 
+ * cancelled together.
+ * 
+ * This hook releases all claims made by the component when it unmounts.
+ * 
+ * Since the page size is applied by the hook, the `constraints` should not include 
+ * a `limit` or `limitToLast` constraint. They should include an `orderBy` constraint
+ * so that the pages have a well-defined order.
+ * 
+ * Because each page starts after the last document that was in the previous page when 
+ * the page was requested, insertions and deletions near page boundaries may cause 
+ * documents to appear in two pages or in none.
+ * 
+ * #### Example
+ * ```typescript
+ *  function Feed() {
+ *      const [feed, feedError, feedStatus, loadMore] = usePaginatedQuery<Post>(
+ *          "Feed", ["posts"], [["orderBy", "createdAt", "desc"]], {pageSize: 10}
+ *      );
+ * 
+ *      if (feedStatus === "success") {
+ *          const posts = feed.pages.flat();
+ *          // Render the posts, and a "Load more" button that calls `loadMore`
+ *          // if `feed.hasMore` is true.
+ *      }
+ *      // ...
+ *  }
+ * ```
+ * 
+ * @param leasee The name of the component making a claim on the paginated query.
+ * @param path The path to the collection in Firestore. Each element in the path
+ *  is a string or the `undefined` value.
+ * @param constraints The constraints applied to the query
+ * @param options An object encapsulating optional parameters.
+ * 
+ * @typeParam TServer The type of data stored in each Firestore document
+ * @typeParam TItem The type of each item within a page. If a `transform` handler
+ *      is provided in the `options`, then the handler returns an array of `TItem`
+ *      values for each page.  Otherwise, `TItem` is the same as `TServer`.
+ * 
+ * @returns A [PaginatedQueryTuple](../types/PaginatedQueryTuple.html) whose last element
+ *      is a function that loads the next page.
+ */
+export function usePaginatedQuery<
+    TServer = unknown,
+    TItem = TServer,
+>(
+    leasee: string,
+    path: PathElement[],
+    constraints: QueryConstraintSpec[] = [],
+    options?: PaginatedQueryOptions<TServer, TItem>
+) : PaginatedQueryTuple<TItem> {
+
+    const client = useClient();
+    const api = client.api;
+
+    const validPath = validatePath(path);
+    const validConstraints = validateConstraints(constraints);
+    const pageSize = options?.pageSize || DEFAULT_PAGE_SIZE;
+    const hashValue = (validPath && validConstraints) ? 
+        hashEntityKey(appKey(paginatedQueryKey(validPath, pageSize, validConstraints), options)) : '';
+
+    useEffect( () => {
+        startPaginatedQuery<TServer, TItem>(
+            client.api, leasee, validPath, validConstraints, hashValue, options
+        );
+
+    }, [leasee, hashValue, client, validPath, validConstraints, options])
+
+    useEffect( () => () => {
+        api.getClient().disownAllLeases(leasee);
+    }, [api, leasee])
+
+    const loadMore = useCallback(() => loadMorePages(api, hashValue), [api, hashValue]);
+
+    return [
+        ...lookupEntityTuple<PaginatedQueryData<TItem>>(client.cache, hashValue),
+        loadMore
+    ];
+}
+
+/**
+ * A hook that runs an aggregation query, such as a count of the documents matching
+ * a query, and stores the results in the cache.
+ * 
+ * **Only the `count` aggregation is supported.** The `sum` and `average` 
+ * aggregations require `getAggregateFromServer` from `firebase` version 10.5 
+ * or later, while this library supports `firebase` version 9. Every alias in
+ * the `spec` therefore holds the number of documents that match the query.
+ * 
+ * Aggregation queries are expensive, so the results are shared by all components
+ * that request the same aggregation, and they are governed by a `Lease` like any
+ * other entity.  The results are not kept up-to-date by a listener. Instead, they
+ * may be refreshed periodically (via the `refetchInterval` option) or on demand (via
+ * the function returned as the last element of the tuple).  While the query is running
+ * again, the tuple continues to hold the previous results.
+ * 
+ * The results are stored under an [EntityKey](../types/EntityKey.html) of the form:
+ * ```javascript
+ *  [{aggregate: path, fields: spec}, ...constraints]
+ * ```
+ * 
+ * This hook releases all claims made by the component when it unmounts.
+ * 
+ * #### Example
+ * ```typescript
+ *  const [stats, statsError, statsStatus, refreshStats] = useAggregate(
+ *      "Dashboard", ["orders"], {openOrders: ["count"]}, 
+ *      [["where", "status", "==", "open"]],
+ *      {refetchInterval: 60000}
+ *  );
+ *  if (statsStatus === "success") {
+ *      console.log(`There are ${stats.openOrders} open orders`);
+ *  }
+ * ```
+ * 
+ * @param leasee The name of the component making a claim on the aggregation results.
+ * @param path The path to the collection in Firestore. If any element in the 
+ *  path is `undefined`, the hook returns an [IdleTuple](../types/IdleTuple.html) 
+ *  followed by a no-op function.
+ * @param spec The aggregations to be computed. Only `["count"]` is supported.
+ * @param constraints The constraints applied to the query
+ * @param options An object encapsulating optional parameters.
+ * 
+ * @typeParam TSpec The type of the aggregation spec. You don't need to set this 
+ *  template parameter explicitly; it will be inferred from the `spec` argument.
+ */
+export function useAggregate<TSpec extends AggregateSpec>(
+    leasee: string,
+    path: PathElement[],
+    spec: TSpec,
+    constraints: QueryConstraintSpec[] = [],
+    options?: AggregateOptions
+) : AggregateTuple<AggregateData<TSpec>> {
+
+    const client = useClient();
+    const api = client.api;
+
+    const validPath = validatePath(path);
+    const validConstraints = validateConstraints(constraints);
+    const hashValue = (validPath && validConstraints) ? 
+        hashEntityKey(appKey(aggregateKey(validPath, spec, validConstraints), options)) : '';
+
+    useEffect( () => {
+        startAggregate(
+            client.api, leasee, validPath, spec, validConstraints, hashValue, options
+        );
+
+    }, [leasee, hashValue, client, validPath, spec, validConstraints, options])
+
+    useEffect( () => () => {
+        api.getClient().disownAllLeases(leasee);
+    }, [api, leasee])
+
+    const refetch = useCallback(() => refreshLeasedEntity(api, hashValue), [api, hashValue]);
+
+    return [
+        ...lookupEntityTuple<AggregateData<TSpec>>(client.cache, hashValue),
+        refetch
+    ];
+}
+
+/**
+ * A hook that listens to a location in the Firebase Realtime Database.
+ * 
+ * This hook behaves like [useDocListener](./useDocListener.html), except that the data
+ * comes from the Realtime Database instead of Firestore. The data is stored in the same 
+ * cache as Firestore entities, under an [EntityKey](../types/EntityKey.html) of the form:
+ * ```javascript
+ *  [{rtdb: path}]
+ * ```
+ * 
+ * If the location holds no data when the listener starts, the status is "notFound".
+ * If the data is removed later, the status is "removed".
+ * 
+ * #### Example
+ * ```typescript
+ *  const [presence, presenceError, presenceStatus] = useRtdbListener<Presence>(
+ *      "PresenceIndicator", ["status", userUid]
+ *  );
+ * ```
+ * 
+ * @param leasee The name of the component making a claim on the data.
+ * @param path The path to the location in the Realtime Database. If any element in the 
+ *  path is `undefined`, the hook returns an [IdleTuple](../types/IdleTuple.html).
+ * @param options An object encapsulating optional parameters.
+ * 
+ * @typeParam TServer The type of data stored at the location
+ * @typeParam TFinal The final type of data to be returned. If a `transform` handler
+ *      is provided in the `options`, then `TFinal` is the type of object returned by
+ *      that handler.  Otherwise, it is the same as `TServer` by default.
+ */
+export function useRtdbListener<
+    TServer = unknown,
+    TFinal = TServer,
+>(
+    leasee: string,
+    path: PathElement[],
+    options?: RtdbListenerOptions<TServer, TFinal>
+) : EntityTuple<TFinal> {
+
+    const client = useClient();
+    const api = client.api;
+
+    const validPath = validatePath(path);
+    const hashValue = validPath ? hashEntityKey(appKey(rtdbKey(validPath), options)) : '';
+
+    useEffect( () => {
+        startRtdbListener<TServer, TFinal>(
+            client.api, leasee, validPath, hashValue, options
+        );
+
+    }, [leasee, hashValue, client, validPath, options])
+
     useEffect( () => () => {
         api.getClient().disownAllLeases(leasee);
     }, [api, leasee])
@@ -165,6 +811,220 @@ export function useDocListener<
     return lookupEntityTuple<TFinal>(client.cache, hashValue);
 }
 
+/**
+ * A hook that gets the download URL for an object in Firebase Storage.
+ * 
+ * The URL is fetched once, when the lease for the entity is created, and it is
+ * shared by all components that request it. The URL is stored in the cache under
+ * an [EntityKey](../types/EntityKey.html) of the form:
+ * ```javascript
+ *  [{storageUrl: path}]
+ * ```
+ * This hook releases all claims made by the component when it unmounts.
+ * 
+ * If the object does not exist, the status is "notFound".
+ * 
+ * #### Example
+ * ```typescript
+ *  const [avatarUrl, avatarUrlError, avatarUrlStatus] = useStorageUrl(
+ *      "Avatar", ["avatars", userUid]
+ *  );
+ * ```
+ * 
+ * @param leasee The name of the component making a claim on the download URL.
+ * @param path The path to the object in Firebase Storage. If any element in the 
+ *  path is `undefined`, the hook returns an [IdleTuple](../types/IdleTuple.html).
+ * @param options An object encapsulating optional parameters.
+ */
+export function useStorageUrl(
+    leasee: string,
+    path: PathElement[],
+    options?: StorageOptions
+) : EntityTuple<string> {
+    return useStorageEntity<string>(leasee, path, 'url', options);
+}
+
+/**
+ * A hook that gets the metadata for an object in Firebase Storage.
+ * 
+ * This hook behaves like [useStorageUrl](./useStorageUrl.html), except that
+ * it gets the object's metadata instead of its download URL. The metadata is
+ * stored in the cache under an [EntityKey](../types/EntityKey.html) of the form:
+ * ```javascript
+ *  [{storageMetadata: path}]
+ * ```
+ * 
+ * @param leasee The name of the component making a claim on the metadata.
+ * @param path The path to the object in Firebase Storage. If any element in the 
+ *  path is `undefined`, the hook returns an [IdleTuple](../types/IdleTuple.html).
+ * @param options An object encapsulating optional parameters.
+ */
+export function useStorageMetadata(
+    leasee: string,
+    path: PathElement[],
+    options?: StorageOptions
+) : EntityTuple<StorageMetadata> {
+    return useStorageEntity<StorageMetadata>(leasee, path, 'metadata', options);
+}
+
+function useStorageEntity<T>(
+    leasee: string,
+    path: PathElement[],
+    kind: 'url' | 'metadata',
+    options?: StorageOptions
+) : EntityTuple<T> {
+
+    const client = useClient();
+    const api = client.api;
+
+    const validPath = validatePath(path);
+    const key = kind === 'url' ? storageUrlKey : storageMetadataKey;
+    const hashValue = validPath ? hashEntityKey(appKey(key(validPath), options)) : '';
+
+    useEffect( () => {
+        startStorageFetch(client.api, leasee, validPath, hashValue, kind, options);
+
+    }, [leasee, hashValue, client, validPath, kind, options])
+
+    useEffect( () => () => {
+        api.getClient().disownAllLeases(leasee);
+    }, [api, leasee])
+
+    return lookupEntityTuple<T>(client.cache, hashValue);
+}
+
+/**
+ * A hook that calls a callable Cloud Function and stores the result in the cache.
+ * 
+ * The result is stored under an [EntityKey](../types/EntityKey.html) built from the
+ * name of the function and its arguments:
+ * ```javascript
+ *  [{callable: name}, args]
+ * ```
+ * The function is called when the lease for the result is created. Components that
+ * request the same function with the same arguments share the result, and concurrent 
+ * identical requests result in a single call.  Like other leased entities, the result 
+ * is evicted from the cache after it has been abandoned for the `abandonTime`.
+ * Use [refetchEntity](./refetchEntity.html) to call the function again.
+ * 
+ * This hook releases all claims made by the component when it unmounts.
+ * 
+ * #### Example
+ * ```typescript
+ *  const [invoice, invoiceError, invoiceStatus] = useCallable<InvoiceRequest, Invoice>(
+ *      "InvoiceComponent", "getInvoice", {invoiceId}
+ *  );
+ * ```
+ * 
+ * @param leasee The name of the component making a claim on the result.
+ * @param name The name of the callable function.
+ * @param args The arguments passed to the callable function. These must be serializable
+ *  because they are hashed into the key for the result.  If the arguments contain an 
+ *  `undefined` value, the function is not called and the hook returns an 
+ *  [IdleTuple](../types/IdleTuple.html). If the function takes no arguments, pass `null`.
+ * @param options An object encapsulating optional parameters.
+ * 
+ * @typeParam TArgs The type of the arguments passed to the callable function
+ * @typeParam TResult The type of data returned by the callable function
+ */
+export function useCallable<TArgs = unknown, TResult = unknown>(
+    leasee: string,
+    name: string,
+    args: TArgs,
+    options?: CallableOptions
+) : EntityTuple<TResult> {
+
+    const client = useClient();
+    const api = client.api;
+
+    const hashValue = toHashValue(appKey(callableKey(name, args, options?.region), options));
+
+    // The args are usually a new object on each render, so the effect is keyed 
+    // on the hash of the args, and it reads the latest args from a ref.
+    const latestArgs = useRef(args);
+    latestArgs.current = args;
+
+    useEffect( () => {
+        startCallable(client.api, leasee, name, latestArgs.current, hashValue, options);
+
+    }, [leasee, hashValue, client, name, options])
+
+    useEffect( () => () => {
+        api.getClient().disownAllLeases(leasee);
+    }, [api, leasee])
+
+    return lookupEntityTuple<TResult>(client.cache, hashValue);
+}
+
+/**
+ * Perform writes to Firestore and track the status of the most recent write.
+ * 
+ * The `mutation` argument is a function that receives an {@link EntityApi} 
+ * followed by any arguments that you pass to the write function returned by
+ * this hook. Typically, it calls [setDocument](./setDocument.html), 
+ * [updateDocument](./updateDocument.html) or [deleteDocument](./deleteDocument.html).
+ * 
+ * #### Example
+ * ```typescript
+ *  const [, saveError, saveStatus, saveCity] = useMutation(
+ *      (api, city: City) => setDocument(api, ["cities", city.id], city)
+ *  );
+ * 
+ *  return (
+ *      <button 
+ *          disabled={saveStatus === 'pending'}
+ *          onClick={() => saveCity(city)}
+ *      >
+ *          Save
+ *      </button>
+ *  )
+ * ```
+ * 
+ * The status is tracked in the component's local state and not in the cache.
+ * If the write function is called again before the previous write completes,
+ * the result of the previous write is ignored.
+ * 
+ * @param mutation A function that performs the write.
+ * @typeParam TArgs The types of the arguments passed to the write function
+ * @returns A `MutationTuple` describing the state of the most recent write,
+ *      followed by the write function.
+ */
+export function useMutation<TArgs extends unknown[]>(
+    mutation: (api: EntityApi, ...args: TArgs) => Promise<WriteResultTuple>
+) : MutationTuple<TArgs> {
+
+    const client = useClient();
+    const api = client.api;
+    const [result, setResult] = useState<IdleTuple | PendingTuple | WriteResultTuple>(
+        [undefined, undefined, 'idle']
+    );
+
+    const mutationRef = useRef(mutation);
+    mutationRef.current = mutation;
+
+    // Incremented by each write, and on unmount, so that stale results are ignored.
+    const writeCount = useRef(0);
+
+    useEffect( () => () => {
+        writeCount.current++;
+    }, [])
+
+    const mutate = useCallback( (...args: TArgs) => {
+        const writeId = ++writeCount.current;
+        setResult([undefined, undefined, 'pending']);
+        return mutationRef.current(api, ...args).then(
+            tuple => {
+                if (writeId === writeCount.current) {
+                    setResult(tuple);
+                }
+                return tuple;
+            }
+        )
+    }, [api])
+
+    return [...result, mutate];
+}
+
 /**
  * An object that encapsulates optional event handlers that fire
  * when the authenticated user's state changes.
@@ -263,6 +1123,18 @@ export interface AuthOptions<Type=User> {
 
     /** An event handler called when it is known that the user is not signed in */
     onSignedOut?: (event: UserSignedOutEvent) => void;
+
+    /**
+     * If `true`, the auth listener also listens for changes to the user's ID token
+     * and stores the decoded `IdTokenResult` (including custom claims and the 
+     * expiration time) in the cache.
+     * 
+     * Use the [useAuthClaims](./useAuthClaims.html) hook or the 
+     * [getAuthClaims](./getAuthClaims.html) function to access the token, and
+     * [refreshAuthClaims](./refreshAuthClaims.html) to force a refresh after the
+     * custom claims change on the server.
+     */
+    includeIdToken?: boolean;
 }
 
 
@@ -331,6 +1203,7 @@ export function useAuthListener<UserType = User>(options?: AuthOptions<UserType>
     const transform = options?.transform;
     const onError = options?.onError;
     const onSignedOut = options?.onSignedOut;
+    const includeIdToken = options?.includeIdToken;
 
     const client = useClient();
 
@@ -340,7 +1213,20 @@ export function useAuthListener<UserType = User>(options?: AuthOptions<UserType>
         const lease = client.leases.get(CURRENT_USER);
         if (!lease?.unsubscribe) {
             const auth = getAuth(client.firebaseApp);
+
+            // The uid of the most recent user, or `null` if no user was signed in.
+            let lastUid: string | null | undefined = undefined;
+
             const unsubscribe = onAuthStateChanged(auth, (user) => {
+                const uid = user ? user.uid : null;
+                if (lastUid && lastUid !== uid) {
+                    const currentClient = entityApi.getClient();
+                    if (currentClient.options.scopeToUser) {
+                        evictUserEntities(currentClient);
+                    }
+                }
+                lastUid = uid;
+
                 if (user) {
                     try {
                         const data = transform ? transform({
@@ -360,6 +1246,7 @@ export function useAuthListener<UserType = User>(options?: AuthOptions<UserType>
                 }
             }, (error) => {
                 setEntity(entityApi, CURRENT_USER, error);
+                notifyListenerError(entityApi.getClient(), CURRENT_USER, error);
                 if (onError) {
                     onError({api: entityApi, error, leasee: CURRENT_USER});
                 }
@@ -367,8 +1254,11 @@ export function useAuthListener<UserType = User>(options?: AuthOptions<UserType>
             // Create a `PendingTuple` and add it to the cache
             createLeasedEntity(client, unsubscribe, CURRENT_USER, CURRENT_USER, AUTH_USER_LEASE_OPTIONS);
         }
+        if (includeIdToken) {
+            startIdTokenListener(entityApi, AUTH_USER_LEASE_OPTIONS);
+        }
 
-    }, [client, transform, onSignedOut])
+    }, [client, transform, onSignedOut, includeIdToken])
        
     return lookupAuthTuple<UserType>(client.cache);
 }
@@ -405,6 +1295,64 @@ export function useAuthUser<UserType=User>(): AuthTuple<UserType> | IdleTuple{
     return lookupAuthTuple<UserType>(client.cache);
 }
 
+/**
+ * Get the `IdTokenResult` of the authenticated user, including custom claims.
+ * 
+ * The token is available only if the `includeIdToken` option was passed to 
+ * [useAuthListener](./useAuthListener.html).
+ * 
+ * #### Example
+ * ```typescript
+ *  const [token, tokenError, tokenStatus] = useAuthClaims();
+ *  const isAdmin = tokenStatus === 'signedIn' && token.claims.admin === true;
+ * ```
+ * 
+ * @returns An `AuthTuple` for the ID token of the authenticated user, or an 
+ *      `IdleTuple` if the ID token listener has not been started.
+ */
+export function useAuthClaims(): AuthTuple<IdTokenResult> | IdleTuple {
+    const client = useClient();
+
+    const lease = client.leases.get(AUTH_CLAIMS);
+    if (!lease) {
+        return [undefined, undefined, "idle"];
+    }
+
+    return lookupAuthTuple<IdTokenResult>(client.cache, AUTH_CLAIMS);
+}
+
+/**
+ * Get the status of the most recent auth action of a given kind.
+ * 
+ * Auth actions are performed by the [signInWith](./signInWith.html), 
+ * [signOutUser](./signOutUser.html), [linkAccount](./linkAccount.html) and
+ * [reauthenticate](./reauthenticate.html) functions.
+ * 
+ * #### Example
+ * ```typescript
+ *  const api = useEntityApi();
+ *  const [, signInError, signInStatus] = useAuthAction("signIn");
+ * 
+ *  return (
+ *      <button 
+ *          disabled={signInStatus === "pending"}
+ *          onClick={() => signInWith(api, new GoogleAuthProvider())}
+ *      >
+ *          Sign in with Google
+ *      </button>
+ *  )
+ * ```
+ * 
+ * @param action The kind of auth action
+ * @typeParam T The type of the value produced by the action. This is `UserCredential`
+ *      for all actions except "signOut".
+ * @returns An `AuthActionTuple` describing the status of the action.
+ */
+export function useAuthAction<T = UserCredential>(action: AuthAction): AuthActionTuple<T> {
+    const client = useClient();
+    return lookupAuthActionTuple<T>(client.cache, action);
+}
+
 /**
  * Get information about an entity stored in the cache.
  * @param key The key under which the entity is stored in the cache
@@ -418,6 +1366,37 @@ export function useEntity<Type=any>(key: EntityKey) {
     return lookupEntityTuple<Type>(client?.cache, hashValue);
 }
 
+/**
+ * Get metadata about the most recent snapshot received for a leased entity.
+ * 
+ * The metadata is useful for displaying indicators such as "saving..." while a 
+ * local write is pending, or "offline copy" while the data comes from the local 
+ * Firestore cache.
+ * 
+ * By default, the metadata is updated only when the entity's data changes.
+ * Set the `includeMetadataChanges` option of the listener (see 
+ * [DocListenerOptions](../interfaces/DocListenerOptions.html#includeMetadataChanges))
+ * to receive updates when only the metadata changes.
+ * 
+ * #### Example
+ * ```typescript
+ *  const path = ["cities", cityId];
+ *  const [city] = useDocListener<City>(
+ *      "CityComponent", path, {includeMetadataChanges: true}
+ *  );
+ *  const metadata = useEntityMetadata(path);
+ *  const saving = metadata?.hasPendingWrites;
+ *  const offline = metadata?.fromCache;
+ * ```
+ * 
+ * @param key The key under which the entity is stored in the cache
+ * @returns The metadata for the entity, or `undefined` if no snapshot has been received.
+ */
+export function useEntityMetadata(key: string | EntityKey) {
+    const client = useClient();
+    return lookupEntityMetadata(client.cache, toHashValue(key));
+}
+
 /**
  * Allows you to extract client-side data from the cache.
  * 
@@ -446,6 +1425,10 @@ export function useEntity<Type=any>(key: EntityKey) {
  * Applications use the {@link EntityApi.mutate} method of {@link EntityApi}
  * to modify client-side state.
  * 
+ * The selector receives the raw cache. Server-side entities are better read with
+ * [useEntity](./useEntity.html) or the hook that manages them, because the cache
+ * holds internal markers for some statuses, e.g. for a document that was not found.
+ * 
  * @param selector A function that extracts data from the cache.
  * 
  * @typeParam StateType The type of your application's client-side state. You don't
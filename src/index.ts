@@ -8,29 +8,71 @@
 export { EntityClient } from "./EntityClient";
 export type { EntityApi } from "./EntityApi";
 export type { Lease } from "./Lease";
+export type { EntityBatch, EntityTransaction, TransactionGetOptions } from "./EntityWriter";
 
 export { FirebaseProvider } from "./components/FirebaseContext";
 
 export type { FirebaseProviderProps } from "./components/FirebaseContext";
 
+export { FirebaseStateDevtools } from "./components/FirebaseStateDevtools";
+
+export type { FirebaseStateDevtoolsProps } from "./components/FirebaseStateDevtools";
+
 export {
+    useAggregate,
+    useAuthAction,
+    useAuthClaims,
     useAuthListener,
     useAuthUser,
+    useCallable,
+    useCollectionGroupListener,
+    useDocFetch,
     useDocListener,
+    useDocsListener,
     useData,
     useEntity,
     useEntityApi,
-    useReleaseAllClaims
+    useEntityMetadata,
+    useMutation,
+    usePaginatedQuery,
+    useQueryListener,
+    useReleaseAllClaims,
+    useRtdbListener,
+    useStorageMetadata,
+    useStorageUrl
 } from "./hooks";
 
 export type { AuthOptions } from "./hooks";
 
 export {
     watchEntity,
+    fetchEntity,
+    refetchEntity,
+    watchQuery,
+    watchCollectionGroup,
+    watchPaginatedQuery,
+    watchRtdbEntity,
+    fetchStorageMetadata,
+    fetchStorageUrl,
+    uploadFile,
+    callFunction,
+    setDocument,
+    updateDocument,
+    deleteDocument,
+    runEntityTransaction,
+    entityBatch,
+    watchAggregate,
     setLeasedEntity,
+    getAuthClaims,
     getAuthUser,
+    refreshAuthClaims,
+    signInWith,
+    signOutUser,
+    linkAccount,
+    reauthenticate,
     setAuthUser,
     getEntity,
+    getEntityMetadata,
     releaseClaim
 } from "./functions";
 
@@ -38,36 +80,104 @@ export { releaseAllClaims } from "./releaseAllClaims";
 
 export { setEntity } from "./setEntity"
 
-export type { DocListenerOptions } from "./common";
+export { createIndexedDbAdapter, createLocalStorageAdapter, createMemoryAdapter } from "./persistence";
+
+export type { MemoryAdapter } from "./persistence";
+
+export { dehydrate, hydrate, prefetchEntities } from "./ssr";
+
+export type { PrefetchRequest } from "./ssr";
+
+export type { 
+    AggregateOptions,
+    AppOptions,
+    CallableOptions,
+    DocFetchOptions,
+    DocListenerOptions,
+    QueryListenerOptions,
+    RtdbListenerOptions,
+    SetDocumentOptions,
+    StorageOptions,
+    UploadOptions,
+    WriteOptions
+} from "./common";
+
+export { AUTH_CLAIMS, CURRENT_USER, ENTITY_METADATA, IncompatibleIdentityProviderError, SchemaValidationError } from "./common";
 
-export { CURRENT_USER } from "./common";
+export type { PaginatedQueryOptions } from "./QueryPaginator";
 
 export type {
+    AggregateData,
+    AggregateErrorEvent,
+    AggregateFieldSpec,
+    AggregateSpec,
+    AggregateTuple,
+    AuthAction,
+    AuthActionTuple,
     AuthErrorEvent,
     AuthStatus,
     AuthTuple,
     Entity,
     Cache,
+    CallableErrorEvent,
+    DehydratedState,
     DocEvent,
     DocChangeEvent,
     DocErrorEvent,
+    DocFetchEvent,
+    DocFetchTuple,
     DocMutationEvent,
     DocRemovedEvent,
+    DocsListenerTuple,
+    EarlyEvictionReason,
     EntityApiOptions,
+    EntityEvictedEvent,
     EntityKey,
+    EntityMetadata,
     EntityStatus,
     EntityTuple,
     ErrorTuple,
+    EvictionReason,
     IdleTuple,
+    LeaseAbandonedEvent,
+    LeaseEvent,
     LeaseOptions,
+    LimitSpec,
+    ListenerErrorEvent,
+    MutationTuple,
+    NotFoundTuple,
+    OrderBySpec,
+    ParseSchema,
+    PaginatedQueryData,
+    PaginatedQueryTuple,
     PathElement,
     PendingTuple,
+    PersistedCache,
+    PersistenceAdapter,
+    PersistenceOptions,
+    QueryChangeEvent,
+    QueryConstraintSpec,
+    QueryErrorEvent,
+    QueryEvent,
     SignedInTuple,
     SignedOutTuple,
+    StorageErrorEvent,
+    StorageMetadata,
     ReactFirebaseEvent,
     RemovedTuple,
+    RtdbChangeEvent,
+    RtdbErrorEvent,
+    RtdbEvent,
+    RtdbMutationEvent,
+    RtdbRemovedEvent,
+    SafeParseSchema,
     SuccessTuple,
     Unsubscribe,
+    UploadProgress,
     UserChangeEvent,
-    UserSignedOutEvent
+    UserSignedOutEvent,
+    ValidationIssue,
+    Validator,
+    WhereSpec,
+    WriteResultTuple
 } from "./types";
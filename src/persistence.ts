@@ -0,0 +1,240 @@
+import { Bytes, GeoPoint, Timestamp } from "firebase/firestore";
+import produce from "immer";
+import { AUTH_CLAIMS, CURRENT_USER, ENTITY_METADATA, NOT_FOUND } from "./common";
+import { Cache, EntityMetadata, PersistedCache, PersistenceAdapter, PersistenceOptions } from "./types";
+import { isPromise } from "./util";
+
+const DEFAULT_STORAGE_KEY = 'react-firebase-state';
+const DEFAULT_SAVE_DELAY = 1000;
+
+/** Keys that are managed by the library and must never be persisted */
+const EXCLUDED_KEYS = [CURRENT_USER, AUTH_CLAIMS, ENTITY_METADATA];
+
+/**
+ * Create a {@link PersistenceAdapter} that saves entities to `localStorage`.
+ *
+ * Since `localStorage` is synchronous, the saved entities are restored into
+ * the initial state of the cache, before the first render.
+ *
+ * @param storageKey The key under which the entities are stored in `localStorage`
+ */
+export function createLocalStorageAdapter(storageKey = DEFAULT_STORAGE_KEY): PersistenceAdapter {
+    return {
+        load() {
+            try {
+                const json = localStorage.getItem(storageKey);
+                return json ? JSON.parse(json) as PersistedCache : undefined;
+            } catch (error) {
+                return undefined;
+            }
+        },
+
+        save(persisted: PersistedCache) {
+            try {
+                localStorage.setItem(storageKey, JSON.stringify(persisted));
+            } catch (error) {
+                // The storage quota is exceeded, or localStorage is unavailable.
+            }
+        }
+    }
+}
+
+/**
+ * Create a {@link PersistenceAdapter} that saves entities to IndexedDB.
+ *
+ * IndexedDB is asynchronous, so the saved entities are restored shortly after
+ * the first render. Entities that have been received from the server by that
+ * time are not overwritten.
+ *
+ * @param databaseName The name of the IndexedDB database
+ */
+export function createIndexedDbAdapter(databaseName = DEFAULT_STORAGE_KEY): PersistenceAdapter {
+    const storeName = 'cache';
+    const recordKey = 'entities';
+
+    const openDatabase = () => new Promise<IDBDatabase>((resolve, reject) => {
+        const request = indexedDB.open(databaseName, 1);
+        request.onupgradeneeded = () => request.result.createObjectStore(storeName);
+        request.onsuccess = () => resolve(request.result);
+        request.onerror = () => reject(request.error);
+    })
+
+    const runRequest = <T>(mode: IDBTransactionMode, operation: (store: IDBObjectStore) => IDBRequest<T>) =>
+        openDatabase().then(db => new Promise<T>((resolve, reject) => {
+            const request = operation(db.transaction(storeName, mode).objectStore(storeName));
+            request.onsuccess = () => resolve(request.result);
+            request.onerror = () => reject(request.error);
+        }).finally(() => db.close()))
+
+    return {
+        load() {
+            return runRequest('readonly', store => store.get(recordKey)).then(
+                json => json ? JSON.parse(json) as PersistedCache : undefined,
+                () => undefined
+            )
+        },
+
+        save(persisted: PersistedCache) {
+            return runRequest('readwrite', store => store.put(JSON.stringify(persisted), recordKey)).then(() => {});
+        }
+    }
+}
+
+/**
+ * A {@link PersistenceAdapter} that keeps the saved entities in memory.
+ */
+export interface MemoryAdapter extends PersistenceAdapter {
+
+    /** The entities saved most recently, if any */
+    readonly persisted: PersistedCache | undefined;
+}
+
+/**
+ * Create a {@link PersistenceAdapter} that keeps the saved entities in memory.
+ * This adapter is intended for tests.
+ *
+ * @param persisted The entities to be loaded when the application starts
+ */
+export function createMemoryAdapter(persisted?: PersistedCache): MemoryAdapter {
+    return {
+        get persisted() {
+            return persisted;
+        },
+
+        load() {
+            return persisted;
+        },
+
+        save(value: PersistedCache) {
+            persisted = value;
+        }
+    }
+}
+
+/**
+ * Select the entities in the cache that should be saved.
+ */
+export function selectPersistedEntities(cache: Cache, options: PersistenceOptions): PersistedCache {
+    return {
+        savedAt: Date.now(),
+        entities: serializeEntities(cache, key => isPersisted(key, options) && !containsFirestoreValue(cache[key]))
+    };
+}
+
+/**
+ * Check whether a value contains a Firestore `Timestamp`, `GeoPoint` or `Bytes`.
+ * JSON converts these to plain objects which would not have the methods of
+ * the original classes when the value is restored.
+ */
+function containsFirestoreValue(value: unknown, visited = new Set<unknown>()): boolean {
+    if (value instanceof Timestamp || value instanceof GeoPoint || value instanceof Bytes) {
+        return true;
+    }
+    if (!value || typeof value !== 'object' || visited.has(value)) {
+        return false;
+    }
+    visited.add(value);
+    const children = Array.isArray(value) ? value : Object.values(value);
+    return children.some(child => containsFirestoreValue(child, visited));
+}
+
+/**
+ * Convert the selected entities in the cache to values that can be 
+ * serialized as JSON.
+ * 
+ * Pending entities, errors, documents that were not found, values that cannot 
+ * be serialized, and the keys managed by the library are omitted.
+ */
+export function serializeEntities(cache: Cache, include: (entityKey: string) => boolean) {
+    const entities: Record<string, unknown> = {};
+    Object.keys(cache).forEach(key => {
+        const value = cache[key];
+        if (
+            value === undefined ||
+            value instanceof Error ||
+            value === NOT_FOUND ||
+            EXCLUDED_KEYS.includes(key) ||
+            !include(key)
+        ) {
+            return;
+        }
+        try {
+            // Serialize each entity separately so that one bad value does not
+            // prevent the others from being saved.
+            entities[key] = JSON.parse(JSON.stringify(value));
+        } catch (error) {
+            // The value cannot be serialized.
+        }
+    })
+    return entities;
+}
+
+/**
+ * Add the saved entities to the cache, and mark them as stale.
+ * Entities that have a value or an error in the cache already are not overwritten.
+ */
+export function restorePersistedEntities(cache: Cache, persisted: PersistedCache | undefined, options: PersistenceOptions) {
+    if (!persisted?.entities) {
+        return cache;
+    }
+    return restoreEntities(cache, persisted.entities, persisted.savedAt, key => isPersisted(key, options));
+}
+
+/**
+ * Add the given entities to the cache, and mark them as stale until fresh
+ * data is received. Entities that have a value or an error in the cache 
+ * already are not overwritten, but pending entities are.
+ * 
+ * @param updatedAt The time at which the entities were read from the server
+ */
+export function restoreEntities(
+    cache: Cache,
+    entities: Record<string, unknown>,
+    updatedAt: number,
+    include: (entityKey: string) => boolean
+) {
+    return produce(cache, draftCache => {
+        const metadata = (draftCache[ENTITY_METADATA] || {}) as Record<string, EntityMetadata>;
+        Object.keys(entities).forEach(key => {
+            if (draftCache[key] === undefined && !EXCLUDED_KEYS.includes(key) && include(key)) {
+                draftCache[key] = entities[key];
+                metadata[key] = {
+                    fromCache: true,
+                    hasPendingWrites: false,
+                    updatedAt,
+                    stale: true
+                };
+            }
+        })
+        draftCache[ENTITY_METADATA] = metadata;
+    })
+}
+
+/**
+ * Load the saved entities into the initial state of the cache, if the
+ * adapter is synchronous.
+ * @returns The initial state, and a Promise for the saved entities if the adapter
+ *      is asynchronous.
+ */
+export function loadPersistedEntities(initialState: Cache, options: PersistenceOptions | undefined): [
+    Cache,
+    Promise<PersistedCache | undefined> | undefined
+] {
+    if (!options) {
+        return [initialState, undefined];
+    }
+    const result = options.adapter.load();
+    if (isPromise(result)) {
+        return [initialState, result as Promise<PersistedCache | undefined>];
+    }
+    return [restorePersistedEntities(initialState, result as PersistedCache | undefined, options), undefined];
+}
+
+export function getSaveDelay(options: PersistenceOptions) {
+    return options.saveDelay ?? DEFAULT_SAVE_DELAY;
+}
+
+function isPersisted(key: string, options: PersistenceOptions) {
+    const include = options.include;
+    return typeof include === 'function' ? include(key) : include.test(key);
+}
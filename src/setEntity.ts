@@ -1,8 +1,8 @@
 import produce from "immer";
 import { toHashValue } from "./util";
 import { EntityApi } from "./EntityApi";
-import { Cache, EntityKey } from "./types";
-import { CURRENT_USER } from "./common";
+import { Cache, EntityKey, EntityMetadata } from "./types";
+import { CURRENT_USER, ENTITY_METADATA } from "./common";
 
 /**
  * Put a value into the local cache.
@@ -83,6 +83,7 @@ export function setEntity(
             oldCache => {
                 const nextCache = produce(oldCache, draftCache => {
                     draftCache[hashValue] = value;
+                    clearStaleMetadata(draftCache, hashValue);
                 })
     
                 return nextCache;
@@ -91,5 +92,17 @@ export function setEntity(
     } else {
         const cache = entityProvider as any;
         cache[hashValue] = value;
+        clearStaleMetadata(cache, hashValue);
+    }
+}
+
+/**
+ * Remove the metadata for an entity that was restored from persistent storage,
+ * since the entity has been replaced by a new value.
+ */
+function clearStaleMetadata(cache: Cache, hashValue: string) {
+    const metadata = cache[ENTITY_METADATA] as Record<string, EntityMetadata> | undefined;
+    if (metadata && metadata[hashValue]?.stale) {
+        delete metadata[hashValue];
     }
 }
\ No newline at end of file
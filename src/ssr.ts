@@ -0,0 +1,165 @@
+import { FirebaseApp } from "firebase/app";
+import { collection, doc, getDoc, getDocs, getFirestore, query } from "firebase/firestore";
+import { AppOptions, appKey, NOT_FOUND, queryKey, toQueryConstraint } from "./common";
+import { EntityApi } from "./EntityApi";
+import { restoreEntities, serializeEntities } from "./persistence";
+import { Cache, DehydratedState, QueryConstraintSpec } from "./types";
+import { hashEntityKey } from "./util";
+
+/**
+ * A read performed by [prefetchEntities](../functions/prefetchEntities.html).
+ */
+export interface PrefetchRequest {
+
+    /** The path to a document, or to a collection if `constraints` is defined */
+    path: string[];
+
+    /**
+     * The constraints for a query. If defined, the request reads the query
+     * results and stores them under the same key as
+     * [useQueryListener](../functions/useQueryListener.html). Otherwise, the request
+     * reads a single document and stores it under the same key as
+     * [useDocListener](../functions/useDocListener.html).
+     */
+    constraints?: QueryConstraintSpec[];
+
+    /**
+     * A function that transforms the data before it is stored. If the client
+     * uses a `transform` handler for the same entity, this function should
+     * produce the same shape. It receives the document data, or the array of
+     * document data for a query. It is not called for a document that does not exist.
+     */
+    transform?: (data: any) => unknown;
+}
+
+/**
+ * Read a set of documents and queries once, and produce a serializable
+ * {@link DehydratedState} for the [FirebaseProvider](./FirebaseProvider.html).
+ *
+ * This function is intended for server-side rendering. The entities are stored
+ * under the same keys that the hooks use, so hooks such as
+ * [useDocListener](./useDocListener.html) start with the "success" status and
+ * attach their listeners afterwards.
+ *
+ * Values are converted with JSON semantics, e.g. a Firestore `Timestamp` becomes
+ * an object with `seconds` and `nanoseconds` properties. A request that fails, 
+ * and a document that does not exist, are omitted from the result, and the 
+ * client reads the entity as usual.
+ *
+ * #### Example
+ * ```typescript
+ *  // Next.js
+ *  export async function getServerSideProps(context) {
+ *      const dehydratedState = await prefetchEntities(firebaseApp, [
+ *          {path: ["cities", context.params.cityId]},
+ *          {path: ["cities"], constraints: [["where", "state", "==", "CA"]]}
+ *      ]);
+ *      return { props: { dehydratedState } };
+ *  }
+ *
+ *  // On the client
+ *  <FirebaseProvider firebaseApp={firebaseApp} dehydratedState={props.dehydratedState}>
+ * ```
+ *
+ * @param firebaseApp The FirebaseApp used to read the entities
+ * @param requests The documents and queries to be read. A plain array is
+ *      treated as the path to a document.
+ * @param options If the client reads the entities from a named app, the
+ *      name of that app.
+ * @returns A Promise that resolves to the dehydrated entities.
+ */
+export function prefetchEntities(
+    firebaseApp: FirebaseApp,
+    requests: (PrefetchRequest | string[])[],
+    options?: AppOptions
+): Promise<DehydratedState> {
+    const db = getFirestore(firebaseApp);
+    const cache: Cache = {};
+    const fetchedAt = Date.now();
+
+    const reads = requests.map(item => {
+        const request: PrefetchRequest = Array.isArray(item) ? {path: item} : item;
+        const {path, constraints, transform} = request;
+
+        const read: Promise<[unknown[], unknown]> = constraints ?
+            getDocs(query(collection(db, path.join('/')), ...constraints.map(toQueryConstraint))).then(
+                snapshot => {
+                    const data = snapshot.docs.map(document => document.data());
+                    return [queryKey(path, constraints), transform ? transform(data) : data];
+                }
+            ) :
+            getDoc(doc(db, path.join('/'))).then(
+                snapshot => {
+                    const value = !snapshot.exists() ? NOT_FOUND :
+                        transform ? transform(snapshot.data()) :
+                        snapshot.data();
+                    return [path, value];
+                }
+            );
+
+        return read.then(
+            ([key, value]) => {
+                cache[hashEntityKey(appKey(key, options))] = value;
+            },
+            // The client will read the entity itself.
+            () => undefined
+        )
+    })
+
+    return Promise.all(reads).then(() => ({
+        fetchedAt,
+        entities: serializeEntities(cache, () => true)
+    }))
+}
+
+/**
+ * Produce a serializable {@link DehydratedState} from the entities in a cache.
+ *
+ * This is useful when the server renders with its own
+ * [FirebaseProvider](./FirebaseProvider.html) and the cache should be
+ * transferred to the client. Pending entities, errors, values that cannot be
+ * serialized as JSON, and the auth user are omitted.
+ *
+ * @param entityProvider An EntityApi instance or the Cache.
+ * @param include A function that selects the keys to be included. By default,
+ *      all keys are included.
+ * @returns The dehydrated entities
+ */
+export function dehydrate(
+    entityProvider: EntityApi | Cache,
+    include?: (entityKey: string) => boolean
+): DehydratedState {
+    const cache = "getClient" in entityProvider ?
+        (entityProvider as EntityApi).getClient().cache :
+        entityProvider as Cache;
+
+    return {
+        fetchedAt: Date.now(),
+        entities: serializeEntities(cache, include || (() => true))
+    }
+}
+
+/**
+ * Add dehydrated entities to the cache. Entities that are in the cache already
+ * are not overwritten.
+ *
+ * Use this function if a dehydrated state arrives after the
+ * [FirebaseProvider](./FirebaseProvider.html) has mounted, e.g. during a
+ * client-side page transition. Otherwise, pass the state to the `dehydratedState`
+ * prop of the FirebaseProvider.
+ *
+ * Until fresh data is received, the [EntityMetadata](../interfaces/EntityMetadata.html)
+ * for a hydrated entity has `stale: true`.
+ *
+ * @param api An EntityApi instance
+ * @param state The dehydrated entities
+ */
+export function hydrate(api: EntityApi, state: DehydratedState) {
+    api.getClient().setCache(
+        oldCache => hydrateCache(oldCache, state)
+    )
+}
+
+export function hydrateCache(cache: Cache, state: DehydratedState | undefined) {
+    return state ? restoreEntities(cache, state.entities, state.fetchedAt, () => true) : cache;
+}
@@ -0,0 +1,27 @@
+import { FirebaseApp, initializeApp } from "firebase/app";
+import { createEntityClient, EntityClient, updateEntityClient } from "./EntityClient";
+import { Cache, EntityApiOptions } from "./types";
+
+let appCount = 0;
+
+/**
+ * Create a FirebaseApp that is never connected to a server. Operations that
+ * validate their input synchronously can be exercised with this app.
+ */
+export function createTestApp(): FirebaseApp {
+    return initializeApp({projectId: 'test-project', apiKey: 'test-key'}, `test-app-${++appCount}`);
+}
+
+/**
+ * Create an EntityClient whose cache updates are applied immediately,
+ * as they would be by the FirebaseProvider after the next render.
+ */
+export function createTestClient(initialCache: Cache = {}, options?: EntityApiOptions) {
+    let client: EntityClient;
+    const setCache: React.Dispatch<React.SetStateAction<Cache>> = action => {
+        const nextCache = typeof action === 'function' ? action(client.cache) : action;
+        client = updateEntityClient(client, nextCache);
+    }
+    client = createEntityClient(createTestApp(), initialCache, setCache, options);
+    return client.api;
+}
@@ -1,27 +1,257 @@
 import { User } from "firebase/auth";
-import { DocumentChange, DocumentData } from "firebase/firestore";
+import { DataSnapshot } from "firebase/database";
+import { FullMetadata, TaskState } from "firebase/storage";
+import { DocumentChange, DocumentData, DocumentSnapshot, OrderByDirection, QuerySnapshot, WhereFilterOp } from "firebase/firestore";
 import { EntityApi } from "./EntityApi";
 import { Lease } from "./Lease";
 
 export type Entity = unknown;
 
 
-export type EntityStatus = 'idle' | 'pending' | 'success' | 'removed' | 'error';
+export type EntityStatus = 'idle' | 'pending' | 'success' | 'removed' | 'notFound' | 'error';
 
 export type IdleTuple = [undefined, undefined, 'idle'];
 export type PendingTuple = [undefined, undefined, 'pending'];
 export type SuccessTuple<T> = [T, undefined, 'success'];
 export type ErrorTuple = [undefined, Error, 'error'];
 export type RemovedTuple = [null, undefined, 'removed'];
+export type NotFoundTuple = [null, undefined, 'notFound'];
 
 export type EntityTuple<T> = (
     IdleTuple |
     PendingTuple |
     SuccessTuple<T> |
     ErrorTuple |
-    RemovedTuple
+    RemovedTuple |
+    NotFoundTuple
 )
 
+/**
+ * Metadata about the most recent snapshot received for a leased entity.
+ * 
+ * Metadata is available via the [useEntityMetadata](../functions/useEntityMetadata.html) 
+ * hook and the [getEntityMetadata](../functions/getEntityMetadata.html) function.
+ */
+export interface EntityMetadata {
+
+    /**
+     * `true` if the snapshot was created from cached data rather than guaranteed
+     * up-to-date server data, e.g. while the application is offline.
+     */
+    fromCache: boolean;
+
+    /**
+     * `true` if the snapshot contains the result of local writes that have not yet
+     * been committed to the server.
+     */
+    hasPendingWrites: boolean;
+
+    /** 
+     * The time at which the entity was last updated from a snapshot, 
+     * in milliseconds since the epoch 
+     */
+    updatedAt: number;
+
+    /**
+     * `true` if the entity was restored from persistent storage and fresh data
+     * has not been received yet. In that case, `updatedAt` is the time at which 
+     * the entity was saved.
+     */
+    stale?: boolean;
+}
+
+/**
+ * The entities saved by a [PersistenceAdapter](./PersistenceAdapter.html).
+ */
+export interface PersistedCache {
+    /** The time at which the entities were saved, in milliseconds since the epoch */
+    savedAt: number;
+
+    /** The saved entities, indexed by the hash of their keys */
+    entities: Record<string, unknown>;
+}
+
+/**
+ * A serializable snapshot of entities, produced on the server by 
+ * [prefetchEntities](../functions/prefetchEntities.html) or 
+ * [dehydrate](../functions/dehydrate.html), and passed to the 
+ * [FirebaseProvider](../functions/FirebaseProvider.html) on the client via
+ * the `dehydratedState` prop.
+ */
+export interface DehydratedState {
+    /** The time at which the entities were read, in milliseconds since the epoch */
+    fetchedAt: number;
+
+    /** The entities, indexed by the hash of their keys */
+    entities: Record<string, unknown>;
+}
+
+/**
+ * An object that saves entities to persistent storage and loads them again
+ * when the application starts.
+ * 
+ * This library provides adapters for `localStorage`, IndexedDB, and an 
+ * in-memory adapter for tests. See 
+ * [createLocalStorageAdapter](../functions/createLocalStorageAdapter.html),
+ * [createIndexedDbAdapter](../functions/createIndexedDbAdapter.html) and
+ * [createMemoryAdapter](../functions/createMemoryAdapter.html).
+ */
+export interface PersistenceAdapter {
+
+    /**
+     * Load the saved entities. If this method returns a Promise, the entities 
+     * are restored after the Promise resolves. Otherwise they are restored
+     * into the initial state of the cache.
+     * @returns The saved entities, or `undefined` if nothing was saved.
+     */
+    load(): PersistedCache | undefined | Promise<PersistedCache | undefined>;
+
+    /**
+     * Save the given entities, replacing any entities saved previously.
+     * @param persisted The entities to be saved
+     */
+    save(persisted: PersistedCache): void | Promise<void>;
+}
+
+/**
+ * Options for saving entities to persistent storage, passed to the
+ * [FirebaseProvider](../functions/FirebaseProvider.html) via the `persistence` prop.
+ */
+export interface PersistenceOptions {
+
+    /** The adapter that saves and loads the entities */
+    adapter: PersistenceAdapter;
+
+    /**
+     * Selects the entities to be saved. Either a regular expression that is tested
+     * against the hash of each key, or a function that receives the hash.
+     * 
+     * Pending entities, errors, and values that cannot be serialized as JSON are 
+     * never saved. Neither are the auth user and ID token. Values containing a
+     * Firestore `Timestamp`, `GeoPoint` or `Bytes` are not saved either, since
+     * they would be restored as plain objects without the methods of those classes.
+     * 
+     * #### Example
+     * ```typescript
+     *  // Save all documents from the "cities" collection
+     *  const persistence = {
+     *      adapter: createLocalStorageAdapter(),
+     *      include: /^\["cities",/
+     *  }
+     * ```
+     */
+    include: RegExp | ((entityKey: string) => boolean);
+
+    /**
+     * The number of milliseconds to wait after the cache changes before the
+     * entities are saved. The default value is 1000.
+     */
+    saveDelay?: number;
+}
+
+/**
+ * The metadata for an object in Firebase Storage.
+ * 
+ * This is the `FullMetadata` from Firebase Storage without the `ref` property
+ * so that it can be stored in the cache.
+ */
+export type StorageMetadata = Omit<FullMetadata, 'ref'>;
+
+/**
+ * The entity stored in the cache by the [uploadFile](../functions/uploadFile.html)
+ * function to describe the progress of an upload.
+ */
+export interface UploadProgress {
+
+    /** The current state of the upload task */
+    state: TaskState;
+
+    /** The number of bytes that have been uploaded so far */
+    bytesTransferred: number;
+
+    /** The total number of bytes to be uploaded */
+    totalBytes: number;
+
+    /** The download URL for the uploaded file, available after the upload succeeds */
+    downloadUrl?: string;
+}
+
+/**
+ * The data for a paginated query entity.
+ * 
+ * @typeParam T The type of each item within a page
+ */
+export interface PaginatedQueryData<T> {
+
+    /** The pages that have been loaded so far, in order */
+    pages: T[][];
+
+    /** 
+     * `true` if there may be more pages to load, and `false` if the last page
+     * contained fewer items than the page size.
+     */
+    hasMore: boolean;
+
+    /** `true` if a request to load another page is in progress */
+    loadingMore: boolean;
+}
+
+/**
+ * The tuple returned by the [usePaginatedQuery](../functions/usePaginatedQuery.html) hook
+ * and the [watchPaginatedQuery](../functions/watchPaginatedQuery.html) function.
+ * 
+ * The first three elements are an `EntityTuple` for the accumulated pages. 
+ * The last element is a function that loads the next page.
+ */
+export type PaginatedQueryTuple<T> = [...EntityTuple<PaginatedQueryData<T>>, () => void];
+
+/**
+ * The tuple returned by the [useDocFetch](../functions/useDocFetch.html) hook
+ * and the [fetchEntity](../functions/fetchEntity.html) function.
+ * 
+ * The first three elements are an `EntityTuple` for the fetched document. 
+ * The last element is a function that fetches the document again.
+ */
+export type DocFetchTuple<T> = [...EntityTuple<T>, () => void];
+
+/**
+ * The tuple returned by the [useAggregate](../functions/useAggregate.html) hook
+ * and the [watchAggregate](../functions/watchAggregate.html) function.
+ * 
+ * The first three elements are an `EntityTuple` for the aggregation results. 
+ * The last element is a function that runs the aggregation query again.
+ */
+export type AggregateTuple<T> = [...EntityTuple<T>, () => void];
+
+/**
+ * The tuple returned by the [useDocsListener](../functions/useDocsListener.html) hook.
+ * 
+ * The first three elements are an `EntityTuple` that combines the states of all the
+ * documents. The last element is an array containing the `EntityTuple` for each 
+ * document, in the same order as the paths passed to the hook.
+ */
+export type DocsListenerTuple<T> = [...EntityTuple<(T | null)[]>, EntityTuple<T>[]];
+
+/**
+ * The result of a write performed by [setDocument](../functions/setDocument.html),
+ * [updateDocument](../functions/updateDocument.html) or 
+ * [deleteDocument](../functions/deleteDocument.html).
+ */
+export type WriteResultTuple = SuccessTuple<undefined> | ErrorTuple;
+
+/**
+ * The tuple returned by the [useMutation](../functions/useMutation.html) hook.
+ * 
+ * The first three elements describe the state of the most recent write. 
+ * The last element is a function that performs the write.
+ * 
+ * @typeParam TArgs The types of the arguments passed to the write function
+ */
+export type MutationTuple<TArgs extends unknown[]> = [
+    ...(IdleTuple | PendingTuple | WriteResultTuple),
+    (...args: TArgs) => Promise<WriteResultTuple>
+];
+
 export type AuthStatus = 'pending' | 'signedIn' | 'signedOut' | 'error';
 export type SignedInTuple<UserType> = [UserType, undefined, 'signedIn'];
 export type SignedOutTuple = [null, undefined, 'signedOut'];
@@ -35,6 +265,72 @@ export type AuthTuple<UserType> = (
 
 export type PathElement = string | undefined;
 
+/**
+ * The name of an action performed by one of the auth action functions:
+ * - `signIn`: [signInWith](../functions/signInWith.html)
+ * - `signOut`: [signOutUser](../functions/signOutUser.html)
+ * - `link`: [linkAccount](../functions/linkAccount.html)
+ * - `reauthenticate`: [reauthenticate](../functions/reauthenticate.html)
+ */
+export type AuthAction = 'signIn' | 'signOut' | 'link' | 'reauthenticate';
+
+/**
+ * A tuple describing the status of the most recent auth action of a given kind.
+ * The tuple is idle if the action has never been performed.
+ * 
+ * @typeParam T The type of the value produced by the action
+ */
+export type AuthActionTuple<T> = (
+    IdleTuple     |
+    PendingTuple  |
+    SuccessTuple<T> |
+    ErrorTuple
+)
+
+/**
+ * A problem found while validating the data in a Firestore document.
+ */
+export interface ValidationIssue {
+    /** A description of the problem */
+    message: string;
+
+    /** The path to the offending field within the document data, if known */
+    path?: (string | number)[];
+}
+
+/**
+ * A schema object, such as a [zod](https://zod.dev) schema, whose `safeParse`
+ * method validates data without throwing.
+ */
+export interface SafeParseSchema<T> {
+    safeParse: (data: unknown) => (
+        { success: true, data: T } |
+        { success: false, error: { issues?: ValidationIssue[], message?: string } }
+    );
+}
+
+/**
+ * A schema object whose `parse` method returns the validated data or throws
+ * an error if the data is invalid.
+ */
+export interface ParseSchema<T> {
+    parse: (data: unknown) => T;
+}
+
+/**
+ * Validates the data in a Firestore document. 
+ * 
+ * A validator is either a function that returns the validated data (or throws
+ * if the data is invalid), or a schema object having a `safeParse` or `parse` method.
+ * If the thrown error has an `issues` array, those issues are reported in the
+ * resulting `SchemaValidationError`.
+ */
+export type Validator<T> = (
+    ((data: unknown) => T) |
+    SafeParseSchema<T>     |
+    ParseSchema<T>
+)
+
 export type Unsubscribe = () => void;
 
 /**
@@ -46,15 +342,135 @@ export type Cache = Record<string, Entity>;
 /**
  * A key for an entity consisting of an array of `unknown` values.
  * 
- * The current version of the `react-firebase-state` library
- * only uses `EntityKey`s given by an array of strings that
- * represent the path to a document in Firestore.
+ * The `react-firebase-state` library uses the following kinds of `EntityKey`:
+ * - The key for a Firestore document is an array of strings that
+ *   represent the path to the document.
+ * - The key for a Firestore query is the path to the collection followed by
+ *   the [QueryConstraintSpec](./QueryConstraintSpec.html) values for the query.
+ *   For example:
+ *   ```javascript
+ *      ["cities", ["where", "state", "==", "CA"], ["orderBy", "name"]]
+ *   ```
+ * - The key for a Firestore collection group query is an object holding the 
+ *   collection id followed by the [QueryConstraintSpec](./QueryConstraintSpec.html) 
+ *   values for the query. For example:
+ *   ```javascript
+ *      [{collectionGroup: "comments"}, ["where", "author", "==", userUid]]
+ *   ```
+ * - The key for a paginated query is an object holding the collection path and
+ *   page size followed by the [QueryConstraintSpec](./QueryConstraintSpec.html) 
+ *   values for the query. For example:
+ *   ```javascript
+ *      [{paginatedQuery: ["posts"], pageSize: 25}, ["orderBy", "createdAt", "desc"]]
+ *   ```
+ * - The key for a location in the Firebase Realtime Database is an object holding 
+ *   the path to that location. For example:
+ *   ```javascript
+ *      [{rtdb: ["status", userUid]}]
+ *   ```
+ * - The key for the download URL of an object in Firebase Storage is an object holding 
+ *   the path to the Storage object. Similarly, there is a key for the object's metadata.
+ *   For example:
+ *   ```javascript
+ *      [{storageUrl: ["avatars", userUid]}]
+ *      [{storageMetadata: ["avatars", userUid]}]
+ *   ```
+ * - The key for the result of a callable Cloud Function is an object holding the name
+ *   of the function (and the region, if one was specified), followed by the arguments
+ *   passed to the function. For example:
+ *   ```javascript
+ *      [{callable: "getInvoice"}, {invoiceId: "x7Rf2"}]
+ *   ```
+ * - The key for the result of an aggregation query is an object holding the collection
+ *   path and the [AggregateSpec](./AggregateSpec.html), followed by the 
+ *   [QueryConstraintSpec](./QueryConstraintSpec.html) values for the query.
+ *   For example:
+ *   ```javascript
+ *      [{aggregate: ["cities"], fields: {total: ["count"]}}, ["where", "state", "==", "CA"]]
+ *   ```
  * 
- * More general types of keys may be used in the future to support
- * Firebase query listeners.
+ * If an entity comes from one of the named FirebaseApps in the `apps` prop of the
+ * [FirebaseProvider](../functions/FirebaseProvider.html), its key is prefixed by an 
+ * object holding the app name. For example:
+ * ```javascript
+ *  [{app: "analytics"}, "reports", reportId]
+ * ```
  */
 export type EntityKey = readonly unknown[];
 
+/**
+ * A serializable description of a `where` constraint for a Firestore query.
+ * 
+ * The elements after the first one are the arguments that would be passed
+ * to the Firestore `where` function.
+ */
+export type WhereSpec = readonly ['where', string, WhereFilterOp, unknown];
+
+/**
+ * A serializable description of an `orderBy` constraint for a Firestore query.
+ * 
+ * The elements after the first one are the arguments that would be passed
+ * to the Firestore `orderBy` function.
+ */
+export type OrderBySpec = readonly ['orderBy', string] | readonly ['orderBy', string, OrderByDirection];
+
+/**
+ * A serializable description of a `limit` or `limitToLast` constraint for a Firestore query.
+ */
+export type LimitSpec = readonly ['limit' | 'limitToLast', number];
+
+/**
+ * A serializable description of an aggregation computed by an aggregation query.
+ * 
+ * Only the `count` aggregation is supported. The `sum` and `average` aggregations
+ * are not available, because they require `getAggregateFromServer` from `firebase`
+ * version 10.5 or later, while this library supports `firebase` version 9.
+ */
+export type AggregateFieldSpec = readonly ['count'];
+
+/**
+ * A map from an alias to the aggregation whose result is stored under that alias.
+ * Since only the `count` aggregation is supported, every alias holds the same result.
+ * 
+ * #### Example
+ * ```typescript
+ *  const spec: AggregateSpec = {
+ *      cityCount: ["count"]
+ *  }
+ * ```
+ */
+export type AggregateSpec = Record<string, AggregateFieldSpec>;
+
+/**
+ * The data for an aggregation query entity. It maps each alias in an 
+ * [AggregateSpec](./AggregateSpec.html) to the result of the corresponding aggregation.
+ */
+export type AggregateData<TSpec extends AggregateSpec> = {
+    [Alias in keyof TSpec]: number;
+}
+
+/**
+ * A serializable description of a constraint for a Firestore query.
+ * 
+ * Query constraints are described by plain arrays (rather than the `QueryConstraint`
+ * objects created by the Firestore SDK) so that they can be hashed into the key 
+ * under which the query results are stored in the cache.
+ * 
+ * If any element of a constraint is `undefined`, query listeners do not start, and
+ * they return an [IdleTuple](./IdleTuple.html). This is useful if the constraints
+ * depend on other entities that might not be available yet.
+ * 
+ * #### Example
+ * ```typescript
+ *  const constraints: QueryConstraintSpec[] = [
+ *      ["where", "state", "==", "CA"],
+ *      ["orderBy", "population", "desc"],
+ *      ["limit", 10]
+ *  ]
+ * ```
+ */
+export type QueryConstraintSpec = WhereSpec | OrderBySpec | LimitSpec;
+
 /**
  * The base interface for all events supported by
  * the `react-firebase-state` library.
@@ -96,13 +512,28 @@ export interface DocEvent extends ReactFirebaseEvent {
 export interface DocMutationEvent<ServerType> extends DocEvent {
 
     /**
-     * The [DocumentChange](https://firebase.google.com/docs/reference/kotlin/com/google/firebase/firestore/DocumentChange) 
+     * The [DocumentSnapshot](https://firebase.google.com/docs/reference/js/firestore_.documentsnapshot) 
      * received by the document listener.
      */
-    change: DocumentChange<DocumentData>;
+    snapshot: DocumentSnapshot<DocumentData>;
 
-    /** The document data cast to the ServerType */
+    /** 
+     * The document data cast to the ServerType. For a 
+     * [DocRemovedEvent](./DocRemovedEvent.html), this is the data that the document 
+     * held before it was removed.
+     */
     data: ServerType;
+
+    /**
+     * The change to the document, in the form delivered by a query listener.
+     * For a [DocRemovedEvent](./DocRemovedEvent.html), `change.doc` is the last
+     * snapshot in which the document existed.
+     * 
+     * @deprecated Document listeners no longer use a query, so use the `snapshot` 
+     * and `data` properties instead. This property will be removed in the next
+     * major version.
+     */
+    change: DocumentChange<DocumentData>;
 }
 
 /**
@@ -118,6 +549,27 @@ export interface DocChangeEvent<ServerType> extends DocMutationEvent<ServerType>
 
 }
 
+/**
+ * An event that fires when a document is fetched from Firestore, either
+ * for the first time or when it is fetched again.
+ * 
+ * Handlers for this event are set via the [transform](./DocFetchOptions.html#transform)
+ * property of [DocFetchOptions](./DocFetchOptions.html).
+ * 
+ * @typeParam ServerType The type of data stored in the Firestore document
+ */
+export interface DocFetchEvent<ServerType> extends DocEvent {
+
+    /** 
+     * The [DocumentSnapshot](https://firebase.google.com/docs/reference/js/firestore_.documentsnapshot) 
+     * returned by Firestore 
+     */
+    snapshot: DocumentSnapshot<DocumentData>;
+
+    /** The document data cast to the ServerType */
+    data: ServerType;
+}
+
 /** 
  * An event that fires when a document is removed from Firestore.
  * 
@@ -130,6 +582,172 @@ export interface DocRemovedEvent<ServerType> extends DocMutationEvent<ServerType
 
 }
 
+/**
+ * The base interface for events that fire while listening for changes
+ * to the results of a Firestore query.
+ */
+export interface QueryEvent extends ReactFirebaseEvent {
+
+    /** 
+     * The path to the collection being queried. For a collection group query,
+     * this array contains only the collection id.
+     */
+    path: string[];
+
+    /** 
+     * `true` if the query spans all collections with the id given by `path`, 
+     * and `false` otherwise
+     */
+    collectionGroup: boolean;
+
+    /** The constraints applied to the query */
+    constraints: QueryConstraintSpec[];
+}
+
+/**
+ * An event that fires if an aggregation query fails.
+ * 
+ * Handlers for this event are defined by the [onError](./AggregateOptions.html#onError)
+ * property of the [AggregateOptions](./AggregateOptions.html) interface.
+ */
+export interface AggregateErrorEvent extends QueryEvent {
+
+    /** The aggregations computed by the query */
+    spec: AggregateSpec;
+
+    /** The error thrown by Firestore */
+    error: Error;
+}
+
+/**
+ * An event that fires when a query listener first receives results from
+ * Firestore and later whenever those results change.
+ * 
+ * Handlers for this event are set via the [transform](./QueryListenerOptions.html#transform)
+ * property of [QueryListenerOptions](./QueryListenerOptions.html).
+ * 
+ * @typeParam ServerType The type of data stored in each Firestore document
+ */
+export interface QueryChangeEvent<ServerType> extends QueryEvent {
+
+    /** The snapshot received by the query listener */
+    snapshot: QuerySnapshot<DocumentData>;
+
+    /** The data from each document in the snapshot, cast to the ServerType */
+    data: ServerType[];
+}
+
+/**
+ * An event that fires if the query listener receives an error from Firestore.
+ * 
+ * Handlers for this event are defined by the [onError](./QueryListenerOptions.html#onError)
+ * property of the [QueryListenerOptions](./QueryListenerOptions.html) interface.
+ */
+export interface QueryErrorEvent extends QueryEvent {
+
+    /** The error thrown by Firestore */
+    error: Error;
+}
+
+/**
+ * The base interface for events that fire while listening for changes
+ * to a location in the Firebase Realtime Database.
+ */
+export interface RtdbEvent extends ReactFirebaseEvent {
+
+    /** The path to the location in the Realtime Database */
+    path: string[];
+}
+
+/**
+ * The base interface for events that describe a change to a location in
+ * the Realtime Database.
+ * 
+ * @typeParam ServerType The type of data stored at the location
+ */
+export interface RtdbMutationEvent<ServerType> extends RtdbEvent {
+
+    /** The DataSnapshot received by the listener */
+    snapshot: DataSnapshot;
+
+    /** 
+     * The data cast to the ServerType. For an [RtdbRemovedEvent](./RtdbRemovedEvent.html),
+     * this is the data that the location held before it was removed.
+     */
+    data: ServerType;
+}
+
+/**
+ * An event that fires when a Realtime Database listener first receives data 
+ * and later when that data changes.
+ * 
+ * Handlers for this event are set via the [transform](./RtdbListenerOptions.html#transform)
+ * property of [RtdbListenerOptions](./RtdbListenerOptions.html).
+ * 
+ * @typeParam ServerType The type of data stored at the location
+ */
+export interface RtdbChangeEvent<ServerType> extends RtdbMutationEvent<ServerType> {
+
+}
+
+/**
+ * An event that fires when the data at a Realtime Database location is removed.
+ * 
+ * Handlers for this event are set via the [onRemoved](./RtdbListenerOptions.html#onRemoved)
+ * property of [RtdbListenerOptions](./RtdbListenerOptions.html).
+ * 
+ * @typeParam ServerType The type of data stored at the location
+ */
+export interface RtdbRemovedEvent<ServerType> extends RtdbMutationEvent<ServerType> {
+
+}
+
+/**
+ * An event that fires if a Realtime Database listener receives an error.
+ * 
+ * Handlers for this event are defined by the [onError](./RtdbListenerOptions.html#onError)
+ * property of the [RtdbListenerOptions](./RtdbListenerOptions.html) interface.
+ */
+export interface RtdbErrorEvent extends RtdbEvent {
+
+    /** The error thrown by the Realtime Database */
+    error: Error;
+}
+
+/**
+ * An event that fires if an error occurs while accessing an object
+ * in Firebase Storage.
+ * 
+ * Handlers for this event are defined by the `onError` property of 
+ * [StorageOptions](./StorageOptions.html) and [UploadOptions](./UploadOptions.html).
+ */
+export interface StorageErrorEvent extends ReactFirebaseEvent {
+
+    /** The path to the object in Firebase Storage */
+    path: string[];
+
+    /** The error thrown by Firebase Storage */
+    error: Error;
+}
+
+/**
+ * An event that fires if a callable Cloud Function fails.
+ * 
+ * Handlers for this event are defined by the [onError](./CallableOptions.html#onError)
+ * property of the [CallableOptions](./CallableOptions.html) interface.
+ */
+export interface CallableErrorEvent extends ReactFirebaseEvent {
+
+    /** The name of the callable function */
+    name: string;
+
+    /** The arguments passed to the callable function */
+    args: unknown;
+
+    /** The error returned by Cloud Functions */
+    error: Error;
+}
+
 /**
  * An event that fires when the state of the current user changes
  * 
@@ -202,12 +820,159 @@ export interface LeaseOptions {
  */
 export interface EntityApiOptions extends LeaseOptions {
 
+    /**
+     * If `true`, leased entities are scoped to the authenticated user.
+     * When the user signs out, or a different user signs in, the listeners for 
+     * leased entities are cancelled and the entities are evicted from the cache 
+     * immediately, instead of lingering until the `abandonTime` has elapsed.
+     * 
+     * Components that are still mounted start new listeners on behalf of the 
+     * new user when they next render.
+     * 
+     * User changes are detected by the [useAuthListener](../functions/useAuthListener.html) 
+     * hook. The entities managed by the auth listener itself are never evicted.
+     * The results of completed auth actions, such as the `UserCredential` from 
+     * the previous sign-in, are removed from the cache as well.
+     */
+    scopeToUser?: boolean;
+
+    /**
+     * A function that decides which entities survive a change of user when
+     * the `scopeToUser` option is enabled. Typically, it retains entities that 
+     * hold public data.
+     * 
+     * #### Example
+     * ```typescript
+     *  const options: EntityApiOptions = {
+     *      scopeToUser: true,
+     *      retainOnUserChange: (entityKey) => entityKey.startsWith('["publicCities"')
+     *  }
+     * ```
+     * 
+     * @param entityKey The hash of the key for a leased entity or an auth action
+     * @returns `true` if the entity should be retained, and `false` if it should be evicted.
+     */
+    retainOnUserChange?: (entityKey: string) => boolean;
+
+    /**
+     * The maximum number of abandoned entities that may linger in the cache.
+     * When this limit is exceeded, abandoned entities are evicted before their
+     * `abandonTime` has elapsed, starting with the entity that was abandoned first.
+     * 
+     * Early evictions are reported by the `onEntityEvicted` callback, whose 
+     * `reason` is the name of the limit that was exceeded.
+     * 
+     * By default, there is no limit.
+     */
+    maxAbandonedEntities?: number;
+
+    /**
+     * The maximum number of leased entities with an active snapshot listener. 
+     * Entities that are fetched on demand, such as those from 
+     * [useDocFetch](../functions/useDocFetch.html), do not count as listeners.
+     * When this limit is exceeded, abandoned entities with a listener are evicted 
+     * before their `abandonTime` has elapsed, starting with the entity that was 
+     * abandoned first. Entities that are claimed by some leasee are never evicted 
+     * early, so the number of listeners may exceed this limit.
+     * 
+     * By default, there is no limit.
+     */
+    maxActiveListeners?: number;
+
+    /**
+     * A function called when a {@link Lease} is created for an entity.
+     *
+     * This callback, and the other lease lifecycle callbacks below, are intended
+     * for observability, e.g. to log leases or to detect entities that leak
+     * because they are never released. They are invoked synchronously, so they
+     * should return quickly and must not modify the cache.
+     */
+    onLeaseCreated?: (event: LeaseEvent) => void;
+
+    /** A function called when a leasee makes a claim on an entity. */
+    onClaimAdded?: (event: LeaseEvent) => void;
+
+    /** A function called when a leasee releases its claim on an entity. */
+    onClaimReleased?: (event: LeaseEvent) => void;
+
+    /**
+     * A function called when the last claim on an entity is released,
+     * and the timer that evicts the entity after its `abandonTime` starts.
+     */
+    onLeaseAbandoned?: (event: LeaseAbandonedEvent) => void;
+
+    /** A function called when a leased entity is evicted from the cache. */
+    onEntityEvicted?: (event: EntityEvictedEvent) => void;
+
+    /** 
+     * A function called when a listener is started for a leased entity. 
+     * Entities that are fetched on demand do not have a listener.
+     */
+    onListenerStarted?: (event: LeaseEvent) => void;
+
+    /**
+     * A function called when the listener for a leased entity receives an
+     * error from Firebase. Errors thrown by `transform` handlers, and errors
+     * from entities that are fetched on demand, are not reported.
+     */
+    onListenerError?: (event: ListenerErrorEvent) => void;
 }
 
-export interface ErrorInfo {
-    message: string;
-    error?: Error
+/**
+ * The reason that an entity was evicted before its `abandonTime` elapsed.
+ */
+export type EarlyEvictionReason = 'maxAbandonedEntities' | 'maxActiveListeners';
+
+/**
+ * The reason that a leased entity was evicted from the cache.
+ * - `abandonTime`: The entity was abandoned for longer than its `abandonTime`.
+ * - `userChange`: The user changed while the `scopeToUser` option was enabled.
+ * - `manual`: The entity was evicted from the [FirebaseStateDevtools](../functions/FirebaseStateDevtools.html).
+ * - `maxAbandonedEntities` or `maxActiveListeners`: A limit in the {@link EntityApiOptions} was exceeded.
+ */
+export type EvictionReason = 'abandonTime' | 'userChange' | 'manual' | EarlyEvictionReason;
+
+/**
+ * The base interface for events that fire during the lifecycle of a {@link Lease}.
+ *
+ * For events that are not caused by a particular leasee, such as evictions and
+ * listener errors, the `leasee` is the one that most recently claimed or
+ * released the entity.
+ */
+export interface LeaseEvent extends ReactFirebaseEvent {
+
+    /** The hash of the key for the leased entity */
+    entityKey: string;
+}
+
+/**
+ * An event that fires when the last claim on an entity is released.
+ */
+export interface LeaseAbandonedEvent extends LeaseEvent {
+
+    /** The number of milliseconds until the entity will be evicted */
+    abandonTime: number;
+}
+
+/**
+ * An event that fires when a leased entity is evicted from the cache.
+ */
+export interface EntityEvictedEvent extends LeaseEvent {
+
+    /** The reason that the entity was evicted */
+    reason: EvictionReason;
 }
 
+/**
+ * An event that fires when the listener for a leased entity receives an error.
+ */
+export interface ListenerErrorEvent extends LeaseEvent {
 
+    /** The error received by the listener */
+    error: Error;
+}
 
+export interface ErrorInfo {
+    message: string;
+    error?: Error
+}